@@ -0,0 +1,52 @@
+import express from 'express';
+import cors from 'cors';
+import dotenv from 'dotenv';
+import chatRoutes from './routes/chat';
+import spotifyRoutes from './routes/spotify';
+import ttsRoutes from './routes/tts';
+import delayedActionRoutes from './routes/delayedAction';
+import { requestLoggingMiddleware, errorLoggingMiddleware, performanceLoggingMiddleware } from './middleware/logging';
+import { isOriginAllowed } from './utils/allowedOrigins';
+
+dotenv.config();
+
+/**
+ * The Express app without a listener, so tests can mount it on an ephemeral port
+ */
+const app = express();
+
+// Add logging middleware first
+app.use(requestLoggingMiddleware);
+app.use(performanceLoggingMiddleware);
+
+// Configure CORS to allow multiple frontend ports
+app.use(cors({
+  origin: function (origin, callback) {
+    if (isOriginAllowed(origin)) {
+      return callback(null, true);
+    }
+
+    const msg = `The CORS policy for this site does not allow access from the specified origin: ${origin}`;
+    return callback(new Error(msg), false);
+  },
+  credentials: true,
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'Origin', 'X-Requested-With', 'Last-Event-ID'],
+  exposedHeaders: ['Content-Length', 'X-Request-ID']
+}));
+
+app.use(express.json({ limit: '25mb' }));
+
+app.use('/api', chatRoutes);
+app.use('/api', ttsRoutes);
+app.use('/api/spotify', spotifyRoutes);
+app.use('/api/delayed', delayedActionRoutes);
+
+// Add error logging middleware last
+app.use(errorLoggingMiddleware);
+
+app.get('/api/health', (req, res) => {
+  res.json({ status: 'healthy', timestamp: new Date().toISOString() });
+});
+
+export default app;
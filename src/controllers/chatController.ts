@@ -1,8 +1,16 @@
 import { Request, Response } from 'express';
-import { ChatAgentService } from '../services/chatAgent';
-import { AgentRequest, StreamChunk } from '../types';
-import { PERSONALITY_CONFIGS } from '../services/personalities';
+import { ChatAgentService, StreamOutcome } from '../services/chatAgent';
+import { AgentRequest, CancelReason, GestureCue, StreamChunk } from '../types';
+import { isPersonalityMode } from '../services/personalities';
 import { Logger } from '../utils/logger';
+import { validateClientHistory } from '../services/clientHistory';
+import { runWithRequestContext } from '../utils/requestContext';
+import { isValidTimeZone } from '../utils/timeZones';
+import { StreamAnnotator, AnnotationEvent, toStreamChunk } from '../services/streamAnnotator';
+import { StreamBuffer, StreamSubscriber, SSE_HEADERS, formatSseEvent } from '../services/streamBuffer';
+import { GenerationTracker } from '../services/generationTracker';
+import { SpeechPipeline } from '../services/speechPipeline';
+import { validateSynthesisOptions } from '../services/ttsEngines';
 
 // export interface ConversationMessage {
 //   role: 'user' | 'assistant';
@@ -20,9 +28,13 @@ import { Logger } from '../utils/logger';
 
 export class ChatController {
   private chatAgent: ChatAgentService;
+  private streamBuffer: StreamBuffer;
+  private generations: GenerationTracker;
 
   constructor() {
     this.chatAgent = new ChatAgentService();
+    this.streamBuffer = new StreamBuffer();
+    this.generations = new GenerationTracker();
   }
 
   async processChat(req: Request, res: Response): Promise<void> {
@@ -82,11 +94,22 @@ export class ChatController {
       // Add requestId to headers for tracking
       req.headers['x-request-id'] = requestId;
 
-      if (wantsStream) {
-        await this.handleStreamingResponse(req, res, request, sessionId as string);
-      } else {
-        await this.handleRegularResponse(req, res, request, sessionId as string);
-      }
+      // Abort in-flight work if the client goes away before we finish responding. Streamed replies
+      // keep generating into the stream buffer instead, and are only aborted once nobody has
+      // resumed them within the grace period (see StreamBuffer).
+      res.on('close', () => {
+        if (!res.writableFinished && !wantsStream) {
+          this.generations.cancel(requestId, 'client_disconnected');
+        }
+      });
+
+      await this.runTurn(requestId, request, sessionId as string | undefined, async () => {
+        if (wantsStream) {
+          await this.handleStreamingResponse(req, res, request, sessionId as string);
+        } else {
+          await this.handleRegularResponse(req, res, request, sessionId as string);
+        }
+      });
 
     } catch (error) {
       const processingTime = Date.now() - startTime;
@@ -115,19 +138,75 @@ export class ChatController {
     }
   }
 
-  private validateChatRequest(request: AgentRequest): string | null {
+  /**
+   * Run one chat turn in its own request context, registered so it can be cancelled while it runs.
+   * Everything below (agent, tools, logging) sees this request's context instead of shared globals.
+   */
+  async runTurn<T>(requestId: string, request: AgentRequest, sessionId: string | undefined, fn: () => Promise<T>): Promise<T> {
+    const signal = this.generations.start(requestId);
+    try {
+      return await runWithRequestContext({
+        requestId,
+        sessionId,
+        userId: request.userId,
+        personality: request.personality,
+        mood: request.mood,
+        timeZone: request.timeZone,
+        signal
+      }, fn);
+    } finally {
+      this.generations.finish(requestId);
+    }
+  }
+
+  /**
+   * Stop a turn started with runTurn(). Returns false if it is unknown or already finished.
+   */
+  cancelTurn(requestId: string, reason: CancelReason): boolean {
+    return this.generations.cancel(requestId, reason);
+  }
+
+  validateChatRequest(request: AgentRequest): string | null {
     if (!request.message || !request.personality || typeof request.mood !== 'number') {
       return 'Missing required fields: message, personality, mood';
     }
 
+    if (typeof request.message !== 'string') {
+      return 'message must be a string';
+    }
+
     if (request.mood < 0 || request.mood > 100) {
       return 'Mood must be between 0 and 100';
     }
 
-    if (!PERSONALITY_CONFIGS[request.personality]) {
+    if (!isPersonalityMode(request.personality)) {
       return 'Invalid personality mode';
     }
 
+    const historyError = validateClientHistory(request.conversationHistory);
+    if (historyError) {
+      return historyError;
+    }
+
+    const modelError = this.chatAgent.getModelRegistry().validateSelection(request);
+    if (modelError) {
+      return modelError;
+    }
+
+    if (request.timeZone !== undefined && !isValidTimeZone(request.timeZone)) {
+      return 'timeZone must be an IANA time zone name, e.g. "Europe/Berlin"';
+    }
+
+    if (request.speech !== undefined) {
+      if (typeof request.speech !== 'object' || request.speech === null || Array.isArray(request.speech)) {
+        return 'speech must be an object, e.g. {} or { "engine": "espeak", "voice": "en-us" }';
+      }
+      const speechError = validateSynthesisOptions(request.speech);
+      if (speechError) {
+        return speechError;
+      }
+    }
+
     return null;
   }
 
@@ -138,7 +217,32 @@ export class ChatController {
     sessionId?: string
   ): Promise<void> {
     const requestId = req.headers['x-request-id'] as string || 'unknown';
-    
+
+    // Set up Server-Sent Events. The reply is buffered under its requestId and this response is
+    // just the first subscriber, so GET /agent/chat/stream/:requestId can pick up where it left off.
+    this.streamBuffer.open(requestId, () => this.generations.cancel(requestId, 'client_disconnected'));
+    res.writeHead(200, { ...SSE_HEADERS, 'X-Request-ID': requestId });
+    const unsubscribe = this.streamBuffer.subscribe(requestId, 0, this.createSseSubscriber(res));
+    res.on('close', () => unsubscribe?.());
+
+    try {
+      await this.streamReply(request, sessionId, requestId, chunk => this.streamBuffer.append(requestId, chunk));
+    } finally {
+      // Ends every connected response, including resumed ones
+      this.streamBuffer.complete(requestId);
+    }
+  }
+
+  /**
+   * Stream one reply as StreamChunks (start, chunks with their annotations, tool events, then end,
+   * cancelled or error) to any transport. Must run inside runTurn().
+   */
+  async streamReply(
+    request: AgentRequest,
+    sessionId: string | undefined,
+    requestId: string,
+    send: (chunk: StreamChunk) => void
+  ): Promise<void> {
     Logger.logStreamingStart(requestId, {
       sessionId,
       personality: request.personality,
@@ -146,51 +250,85 @@ export class ChatController {
       userMessage: request.message
     });
 
-    // Set up Server-Sent Events
-    res.writeHead(200, {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Headers': 'Cache-Control'
-    });
-
     // Memory is now handled automatically by the ChatAgentService
 
     const startTime = Date.now();
     let fullResponse = '';
     let chunkCount = 0;
+    const outcome: StreamOutcome = {};
+    const annotator = new StreamAnnotator();
+    const gestures: GestureCue[] = [];
+    let speech: SpeechPipeline | null = null;
+    const sendAnnotation = (annotation: AnnotationEvent) => {
+      if (annotation.type === 'gesture') {
+        gestures.push({ tag: annotation.tag, charOffset: annotation.charOffset });
+      }
+      if (annotation.type === 'sentence') {
+        speech?.addSentence(annotation, gestures);
+      }
+      send(toStreamChunk(annotation));
+    };
 
     try {
+      if (request.speech) {
+        speech = new SpeechPipeline(request.speech, request.personality, request.mood, requestId, audio => send({ type: 'audio', audio }));
+      }
+
       // Send start event
       const startChunk: StreamChunk = {
         type: 'start',
         metadata: {
-          personality: request.personality
+          personality: request.personality,
+          requestId
         }
       };
-      res.write(`data: ${JSON.stringify(startChunk)}\n\n`);
-
-      // Store session ID globally for tools to access
-      global.currentSessionId = sessionId;
+      send(startChunk);
 
       // Stream the response
-      for await (const chunk of this.chatAgent.streamMessage(request, sessionId, requestId)) {
-        const streamChunk: StreamChunk = {
-          type: 'chunk',
-          content: chunk
-        };
-        res.write(`data: ${JSON.stringify(streamChunk)}\n\n`);
-        fullResponse += chunk;
+      for await (const event of this.chatAgent.streamMessage(request, sessionId, requestId, outcome)) {
+        if (event.type !== 'token') {
+          send({
+            type: event.type,
+            tool: {
+              name: event.tool,
+              input: event.input,
+              durationMs: event.type === 'tool_end' ? event.durationMs : undefined
+            }
+          });
+          continue;
+        }
+
+        send({ type: 'chunk', content: event.content });
+        annotator.push(event.content).forEach(sendAnnotation);
+        fullResponse += event.content;
         chunkCount++;
         
-        Logger.logStreamingChunk(requestId, chunk.length, fullResponse.length);
+        Logger.logStreamingChunk(requestId, event.content.length, fullResponse.length);
+      }
+
+      if (outcome.cancelReason) {
+        // The unfinished last sentence is not flushed: the client asked for silence
+        speech?.stop();
+        send({
+          type: 'cancelled',
+          metadata: {
+            personality: request.personality,
+            responseTime: Date.now() - startTime,
+            model: outcome.model,
+            provider: outcome.provider,
+            cancelReason: outcome.cancelReason
+          }
+        });
+        return;
+      }
+      annotator.flush().forEach(sendAnnotation);
+      if (annotator.getRepairs().length > 0) {
+        Logger.debug('Repaired gesture tags in streamed reply', { requestId, repairs: annotator.getRepairs() });
       }
+      // The reply ends once its last sentence has been spoken
+      await speech?.finish();
 
       // Memory is automatically saved by the ChatAgentService during streaming
-      
-      // Clean up global session ID
-      delete global.currentSessionId;
 
       const responseTime = Date.now() - startTime;
       const confidence = 0.85 + Math.random() * 0.15;
@@ -212,13 +350,18 @@ export class ChatController {
       // Send end event with metadata
       const endChunk: StreamChunk = {
         type: 'end',
+        spokenText: annotator.getSpokenText(),
+        mood: annotator.getMood() ?? undefined,
+        gestures: gestures,
         metadata: {
           personality: request.personality,
           confidence,
-          responseTime
+          responseTime,
+          model: outcome.model,
+          provider: outcome.provider
         }
       };
-      res.write(`data: ${JSON.stringify(endChunk)}\n\n`);
+      send(endChunk);
 
     } catch (error) {
       Logger.error('Streaming error occurred', error as Error, {
@@ -228,15 +371,84 @@ export class ChatController {
         chunkCount,
         partialResponse: fullResponse.substring(0, 200)
       });
+      speech?.stop();
       
       const errorChunk: StreamChunk = {
         type: 'error',
         content: 'Sorry, I encountered an error while processing your message.'
       };
-      res.write(`data: ${JSON.stringify(errorChunk)}\n\n`);
+      send(errorChunk);
     }
+  }
+
+  /**
+   * GET /agent/chat/stream/:requestId - replay a buffered reply after Last-Event-ID, then follow it live
+   */
+  async resumeStream(req: Request, res: Response): Promise<void> {
+    try {
+      const { requestId } = req.params;
+      const lastEventHeader = req.header('Last-Event-ID') ?? req.query.lastEventId;
+      const lastEventId = parseInt(String(lastEventHeader ?? '0'), 10);
+
+      if (Number.isNaN(lastEventId) || lastEventId < 0) {
+        res.status(400).json({ error: 'Last-Event-ID must be a non-negative integer' });
+        return;
+      }
+
+      if (!this.streamBuffer.has(requestId)) {
+        res.status(404).json({ error: 'Stream not found or expired' });
+        return;
+      }
+
+      Logger.info('Resuming buffered stream', { requestId, lastEventId });
 
-    res.end();
+      res.writeHead(200, { ...SSE_HEADERS, 'X-Request-ID': requestId });
+      const unsubscribe = this.streamBuffer.subscribe(requestId, lastEventId, this.createSseSubscriber(res));
+      res.on('close', () => unsubscribe?.());
+    } catch (error) {
+      console.error('Error resuming stream:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Failed to resume stream' });
+      }
+    }
+  }
+
+  /**
+   * POST /agent/chat/:requestId/cancel - stop a reply that is still being generated. The requestId is
+   * the X-Request-ID header (also sent in the stream's start event).
+   */
+  async cancelChat(req: Request, res: Response): Promise<void> {
+    try {
+      const { requestId } = req.params;
+
+      if (!this.generations.cancel(requestId, 'client_cancelled')) {
+        res.status(404).json({ error: 'No reply is being generated for this request' });
+        return;
+      }
+
+      res.json({ requestId, cancelled: true });
+    } catch (error) {
+      console.error('Error cancelling chat request:', error);
+      res.status(500).json({ error: 'Failed to cancel chat request' });
+    }
+  }
+
+  /**
+   * Writes buffered events to one SSE response, skipping writes once the client has gone
+   */
+  private createSseSubscriber(res: Response): StreamSubscriber {
+    return {
+      onEvent: event => {
+        if (!res.writableEnded && !res.destroyed) {
+          res.write(formatSseEvent(event));
+        }
+      },
+      onDone: () => {
+        if (!res.writableEnded) {
+          res.end();
+        }
+      }
+    };
   }
 
   private async handleRegularResponse(
@@ -250,13 +462,8 @@ export class ChatController {
     
     Logger.debug('Processing regular (non-streaming) response', { requestId });
     
-    // Store session ID globally for tools to access
-    global.currentSessionId = sessionId;
-    
     const response = await this.chatAgent.processMessage(request, sessionId, requestId);
-    
-    // Clean up global session ID
-    delete global.currentSessionId;
+
     const responseTime = Date.now() - startTime;
 
     Logger.logChatResponse(requestId, {
@@ -0,0 +1,205 @@
+import { IncomingMessage } from 'http';
+import { RawData, WebSocket } from 'ws';
+import { ChatController } from './chatController';
+import { AgentRequest, ChatSocketClientMessage, ChatSocketServerMessage, PersonalityMode } from '../types';
+import { isPersonalityMode } from '../services/personalities';
+import { sessionEvents } from '../services/sessionEvents';
+import { Logger } from '../utils/logger';
+
+/**
+ * Per-connection state. One connection belongs to at most one session.
+ */
+interface SocketState {
+  sessionId?: string;
+  userId?: string;
+  personality: PersonalityMode;
+  mood: number;
+  activeRequestId?: string;
+  // Turns run one after another so the session history stays in order
+  turns: Promise<void>;
+  // Bumped by every chat message; turns still queued from before the latest one are dropped
+  generation: number;
+}
+
+/**
+ * Full-duplex chat over one WebSocket per session: chat messages in, streamed reply events out,
+ * plus cancel/interrupt, personality and mood changes, and messages pushed by the server
+ */
+export class ChatSocketController {
+  private chatController: ChatController;
+
+  private static readonly DEFAULT_PERSONALITY: PersonalityMode = 'default';
+  private static readonly DEFAULT_MOOD = 50;
+
+  constructor(chatController: ChatController) {
+    this.chatController = chatController;
+  }
+
+  /**
+   * Accept a connection to /api/agent/ws?sessionId=...&personality=...&mood=...
+   */
+  handleConnection(socket: WebSocket, req: IncomingMessage): void {
+    const params = new URL(req.url || '', 'http://localhost').searchParams;
+    const state: SocketState = {
+      sessionId: params.get('sessionId') || undefined,
+      userId: params.get('userId') || undefined,
+      personality: ChatSocketController.DEFAULT_PERSONALITY,
+      mood: ChatSocketController.DEFAULT_MOOD,
+      turns: Promise.resolve(),
+      generation: 0
+    };
+
+    const settingsError = this.applySettings(state, {
+      personality: (params.get('personality') || undefined) as PersonalityMode | undefined,
+      mood: params.has('mood') ? Number(params.get('mood')) : undefined
+    });
+    if (settingsError) {
+      socket.close(1008, settingsError);
+      return;
+    }
+
+    const unsubscribe = state.sessionId
+      ? sessionEvents.subscribe(state.sessionId, (chunk, requestId) => this.send(socket, requestId ? { ...chunk, requestId } : chunk))
+      : undefined;
+
+    Logger.info('Chat socket connected', { sessionId: state.sessionId, personality: state.personality });
+    this.send(socket, { type: 'ready', sessionId: state.sessionId, personality: state.personality, mood: state.mood });
+
+    socket.on('message', data => this.handleMessage(socket, state, data));
+    // ws closes the connection itself after a protocol error such as a frame with invalid UTF-8
+    socket.on('error', err => Logger.warn('Chat socket error', { sessionId: state.sessionId, error: err.message }));
+    socket.on('close', () => {
+      unsubscribe?.();
+      if (state.activeRequestId) {
+        this.chatController.cancelTurn(state.activeRequestId, 'client_disconnected');
+      }
+      Logger.info('Chat socket closed', { sessionId: state.sessionId });
+    });
+  }
+
+  private handleMessage(socket: WebSocket, state: SocketState, data: RawData): void {
+    let message: ChatSocketClientMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      this.send(socket, { type: 'error', content: 'Messages must be JSON' });
+      return;
+    }
+
+    switch (message?.type) {
+      case 'chat':
+        this.handleChat(socket, state, message);
+        break;
+      case 'cancel':
+        this.handleCancel(socket, state, message.requestId);
+        break;
+      case 'settings': {
+        const error = this.applySettings(state, message);
+        if (error) {
+          this.send(socket, { type: 'error', content: error });
+          return;
+        }
+        this.send(socket, { type: 'settings', sessionId: state.sessionId, personality: state.personality, mood: state.mood });
+        break;
+      }
+      default:
+        this.send(socket, { type: 'error', content: 'Unknown message type. Use one of: chat, cancel, settings' });
+    }
+  }
+
+  /**
+   * A new chat message interrupts the reply in progress, like a user talking over the avatar, and
+   * replaces any messages still waiting for their turn
+   */
+  private handleChat(socket: WebSocket, state: SocketState, message: Extract<ChatSocketClientMessage, { type: 'chat' }>): void {
+    const { type, ...fields } = message;
+    const request: AgentRequest = {
+      ...fields,
+      userId: fields.userId ?? state.userId,
+      personality: fields.personality ?? state.personality,
+      mood: fields.mood ?? state.mood
+    };
+
+    const validationError = this.chatController.validateChatRequest(request);
+    if (validationError) {
+      this.send(socket, { type: 'error', content: validationError });
+      return;
+    }
+
+    const requestId = Logger.logChatRequest({
+      sessionId: state.sessionId,
+      userId: request.userId,
+      personality: request.personality,
+      mood: request.mood,
+      userMessage: request.message,
+      streaming: true,
+      conversationLength: request.conversationHistory?.length || 0
+    });
+
+    if (state.activeRequestId) {
+      this.chatController.cancelTurn(state.activeRequestId, 'client_cancelled');
+    }
+
+    const generation = ++state.generation;
+    state.turns = state.turns.then(() => this.runChat(socket, state, request, requestId, generation));
+  }
+
+  private async runChat(socket: WebSocket, state: SocketState, request: AgentRequest, requestId: string, generation: number): Promise<void> {
+    if (socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    if (generation !== state.generation) {
+      Logger.info('Dropping queued chat turn interrupted by a newer message', { requestId, sessionId: state.sessionId });
+      this.send(socket, {
+        type: 'cancelled',
+        requestId,
+        metadata: { personality: request.personality, responseTime: 0, cancelReason: 'client_cancelled' }
+      });
+      return;
+    }
+
+    state.activeRequestId = requestId;
+    try {
+      await this.chatController.runTurn(requestId, request, state.sessionId, () =>
+        this.chatController.streamReply(request, state.sessionId, requestId, chunk => this.send(socket, { ...chunk, requestId }))
+      );
+    } catch (error) {
+      Logger.error('Chat socket turn failed', error as Error, { requestId, sessionId: state.sessionId });
+      this.send(socket, { type: 'error', content: 'Sorry, I encountered an error while processing your message.', requestId });
+    } finally {
+      if (state.activeRequestId === requestId) {
+        state.activeRequestId = undefined;
+      }
+    }
+  }
+
+  private handleCancel(socket: WebSocket, state: SocketState, requestId?: string): void {
+    const target = requestId || state.activeRequestId;
+    if (!target || !this.chatController.cancelTurn(target, 'client_cancelled')) {
+      this.send(socket, { type: 'error', content: 'No reply is being generated for this request', requestId: target });
+    }
+  }
+
+  /**
+   * Validate and apply a personality/mood change. Returns an error message or null.
+   */
+  private applySettings(state: SocketState, settings: { personality?: PersonalityMode; mood?: number }): string | null {
+    if (settings.personality !== undefined && !isPersonalityMode(settings.personality)) {
+      return 'Invalid personality mode';
+    }
+    if (settings.mood !== undefined && (typeof settings.mood !== 'number' || Number.isNaN(settings.mood) || settings.mood < 0 || settings.mood > 100)) {
+      return 'Mood must be between 0 and 100';
+    }
+
+    state.personality = settings.personality ?? state.personality;
+    state.mood = settings.mood ?? state.mood;
+    return null;
+  }
+
+  private send(socket: WebSocket, message: ChatSocketServerMessage): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import { Request, Response } from 'express';
+import { DelayedActionProcessor } from '../services/delayedActionProcessor';
+import { DelayedActionStore } from '../services/delayedActionStore';
+import { DelayedActionDelivery } from '../services/delayedActionDelivery';
+import { sessionEvents } from '../services/sessionEvents';
+import { SSE_HEADERS, formatSseEvent } from '../services/streamBuffer';
+import { DelayedAction } from '../types';
+import { Logger } from '../utils/logger';
+
+export class DelayedActionController {
+  private processor: DelayedActionProcessor;
+  private store: DelayedActionStore;
+  private delivery: DelayedActionDelivery;
+
+  // Comment lines keep idle connections from being closed by proxies
+  private static readonly HEARTBEAT_INTERVAL = 25000;
+  private static readonly MAX_CANCEL_PASSES = 5;
+
+  constructor(processor: DelayedActionProcessor, store: DelayedActionStore, delivery: DelayedActionDelivery) {
+    this.processor = processor;
+    this.store = store;
+    this.delivery = delivery;
+  }
+
+  /**
+   * GET /delayed/stream/:sessionId - Server-Sent Events carrying the session's delayed action replies,
+   * each as the StreamChunks of a normal streamed reply. Replies that finished while no client was
+   * connected are sent first.
+   */
+  async streamSession(req: Request, res: Response): Promise<void> {
+    const { sessionId } = req.params;
+
+    res.writeHead(200, SSE_HEADERS);
+    res.flushHeaders();
+
+    // Event ids only order the events of this connection; delivery is tracked per action instead
+    let eventId = 0;
+    const unsubscribe = sessionEvents.subscribe(sessionId, chunk => {
+      if (!res.writableEnded && !res.destroyed) {
+        res.write(formatSseEvent({ id: ++eventId, chunk }));
+      }
+    });
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), DelayedActionController.HEARTBEAT_INTERVAL);
+    heartbeat.unref();
+
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      Logger.info('Delayed action stream closed', { sessionId });
+    });
+
+    Logger.info('Delayed action stream opened', { sessionId });
+
+    try {
+      const delivered = await this.delivery.deliverQueued(sessionId);
+      if (delivered > 0) {
+        Logger.info('Delivered queued delayed action outcomes', { sessionId, delivered });
+      }
+    } catch (error) {
+      Logger.error('Error delivering queued delayed actions', error as Error, { sessionId });
+    }
+  }
+
+  getStatus(req: Request, res: Response): void {
+    res.json(this.processor.getStatus());
+  }
+
+  /**
+   * Process due actions now instead of waiting for the next poll
+   */
+  async trigger(req: Request, res: Response): Promise<void> {
+    try {
+      const processed = await this.processor.triggerManualProcess();
+      res.json({ success: true, processed, message: 'Manual processing triggered' });
+    } catch (error) {
+      Logger.error('Manual delayed action trigger failed', error as Error);
+      res.status(500).json({ error: 'Failed to trigger processing' });
+    }
+  }
+
+  async getSessionActions(req: Request, res: Response): Promise<void> {
+    try {
+      const { sessionId } = req.params;
+      const actions = await this.store.listBySession(sessionId);
+
+      res.json({
+        sessionId,
+        actions: actions.map(action => this.formatAction(action))
+      });
+    } catch (error) {
+      Logger.error('Error listing delayed actions', error as Error, { sessionId: req.params.sessionId });
+      res.status(500).json({ error: 'Failed to list delayed actions' });
+    }
+  }
+
+  /**
+   * Cancel an action that hasn't started yet. Cancelling any occurrence of a repeating action, even a
+   * finished one, cancels the whole series.
+   */
+  async cancelAction(req: Request, res: Response): Promise<void> {
+    try {
+      const { actionId } = req.params;
+      const action = await this.store.get(actionId);
+
+      if (!action) {
+        res.status(404).json({ error: 'Delayed action not found' });
+        return;
+      }
+
+      if (action.seriesId) {
+        const cancelled = await this.cancelSeries(action.sessionId, action.seriesId);
+        if (cancelled === 0) {
+          res.status(409).json({ error: 'Delayed action series is already finished' });
+          return;
+        }
+        Logger.info('Delayed action series cancelled', { actionId, seriesId: action.seriesId, sessionId: action.sessionId, cancelled });
+        res.json({ ...this.formatAction((await this.store.get(actionId)) as DelayedAction), cancelledOccurrences: cancelled });
+        return;
+      }
+
+      if (!await this.store.transition(actionId, 'pending', 'cancelled', { completedAt: Date.now() })) {
+        res.status(409).json({ error: `Delayed action is already ${(await this.store.get(actionId))?.status ?? 'gone'}` });
+        return;
+      }
+
+      Logger.info('Delayed action cancelled', { actionId, sessionId: action.sessionId });
+      res.json(this.formatAction((await this.store.get(actionId)) as DelayedAction));
+    } catch (error) {
+      Logger.error('Error cancelling delayed action', error as Error, { actionId: req.params.actionId });
+      res.status(500).json({ error: 'Failed to cancel delayed action' });
+    }
+  }
+
+  /**
+   * Cancel every occurrence of a series that is waiting or running. A running occurrence adds the next
+   * one as it starts, so passes repeat until one finds nothing left: either this pass sees the new
+   * occurrence, or the processor sees its own occurrence cancelled and cancels the new one itself.
+   */
+  private async cancelSeries(sessionId: string, seriesId: string): Promise<number> {
+    let cancelled = 0;
+
+    for (let pass = 0; pass < DelayedActionController.MAX_CANCEL_PASSES; pass++) {
+      const active = (await this.store.listBySession(sessionId))
+        .filter(occurrence => occurrence.seriesId === seriesId && (occurrence.status === 'pending' || occurrence.status === 'running'));
+      if (active.length === 0) {
+        break;
+      }
+      for (const occurrence of active) {
+        if (await this.store.transition(occurrence.id, occurrence.status, 'cancelled', { completedAt: Date.now() })) {
+          cancelled++;
+        }
+      }
+    }
+
+    return cancelled;
+  }
+
+  private formatAction(action: DelayedAction) {
+    return {
+      ...action,
+      executeAt: new Date(action.executeAt).toISOString(),
+      createdAt: new Date(action.createdAt).toISOString(),
+      ...(action.startedAt !== undefined ? { startedAt: new Date(action.startedAt).toISOString() } : {}),
+      ...(action.completedAt !== undefined ? { completedAt: new Date(action.completedAt).toISOString() } : {}),
+      ...(action.deliveredAt !== undefined ? { deliveredAt: new Date(action.deliveredAt).toISOString() } : {})
+    };
+  }
+}
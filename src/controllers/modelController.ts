@@ -0,0 +1,29 @@
+import { Request, Response } from 'express';
+import { ModelRegistry } from '../services/modelRegistry';
+import { ModelFailover } from '../services/modelFailover';
+
+export class ModelController {
+  private models: ModelRegistry;
+  private failover: ModelFailover;
+
+  constructor(models: ModelRegistry, failover: ModelFailover) {
+    this.models = models;
+    this.failover = failover;
+  }
+
+  getModels(req: Request, res: Response): void {
+    try {
+      res.json({
+        default: this.models.getDefault().id,
+        personalityDefaults: this.models.getPersonalityDefaults(),
+        models: this.models.list().map(model => ({
+          ...model,
+          circuit: this.failover.getCircuitState(model.provider)
+        }))
+      });
+    } catch (error) {
+      console.error('Error getting models:', error);
+      res.status(500).json({ error: 'Failed to get models' });
+    }
+  }
+}
@@ -1,11 +1,11 @@
 import { Request, Response } from 'express';
-import { PERSONALITY_CONFIGS } from '../services/personalities';
+import { PERSONALITY_CONFIGS, isPersonalityMode } from '../services/personalities';
 
 export class PersonalityController {
   getPersonality(req: Request, res: Response): void {
     try {
       const { personality } = req.params;
-      const config = PERSONALITY_CONFIGS[personality as keyof typeof PERSONALITY_CONFIGS];
+      const config = isPersonalityMode(personality) ? PERSONALITY_CONFIGS[personality] : undefined;
       
       if (!config) {
         res.status(404).json({ error: 'Personality not found' });
@@ -1,22 +1,40 @@
 import { Request, Response } from 'express';
 import { ChatAgentService } from '../services/chatAgent';
+import { SessionService } from '../services/sessionService';
+import { isPersonalityMode } from '../services/personalities';
+import { exportTranscript, TranscriptFormat, TRANSCRIPT_FORMATS } from '../services/transcriptExport';
+import { ChatSession } from '../types';
 
 export class SessionController {
   private chatAgent: ChatAgentService;
+  private sessions: SessionService;
+
+  private static readonly DEFAULT_PAGE_SIZE = 20;
+  private static readonly MAX_PAGE_SIZE = 100;
+  private static readonly DEFAULT_MESSAGE_PAGE_SIZE = 50;
+  private static readonly MAX_MESSAGE_PAGE_SIZE = 200;
 
   constructor(chatAgent: ChatAgentService) {
     this.chatAgent = chatAgent;
+    this.sessions = chatAgent.getSessionService();
   }
 
-  createSession(req: Request, res: Response): void {
+  async createSession(req: Request, res: Response): Promise<void> {
     try {
-      const { userId } = req.body;
-      const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      
-      // Sessions are now created automatically when first used in ChatAgentService
-      res.json({
-        sessionId,
-        message: 'Chat session ID generated successfully'
+      const { userId, title, personality, mood } = req.body || {};
+
+      const validationError = this.validateSessionFields({ userId, title, personality, mood });
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const session = await this.sessions.createSession({ userId, title, personality, mood });
+
+      res.status(201).json({
+        sessionId: session.id,
+        message: 'Chat session created successfully',
+        session: this.formatSession(session)
       });
     } catch (error) {
       console.error('Error creating session:', error);
@@ -27,18 +45,27 @@ export class SessionController {
   async getSession(req: Request, res: Response): Promise<void> {
     try {
       const { sessionId } = req.params;
-      const summary = await this.chatAgent.getSessionSummary(sessionId);
-      
-      if (summary === null) {
-        res.status(404).json({ error: 'Session not found or empty' });
+      const session = await this.sessions.getSession(sessionId);
+
+      if (!session) {
+        res.status(404).json({ error: 'Session not found or expired' });
         return;
       }
-      
+
+      const summary = await this.chatAgent.getSessionSummary(sessionId);
+      const memory = await this.chatAgent.getSessionMemoryInfo(sessionId);
+
       res.json({
+        ...this.formatSession(session),
         sessionId,
         summary,
-        createdAt: new Date(),
-        updatedAt: new Date()
+        conversationSummary: memory.conversationSummary,
+        memory: {
+          mode: memory.mode,
+          bufferedMessages: memory.bufferedMessages,
+          bufferedTokens: memory.bufferedTokens,
+          maxTokens: memory.maxTokens
+        }
       });
     } catch (error) {
       console.error('Error getting session:', error);
@@ -46,16 +73,110 @@ export class SessionController {
     }
   }
 
-  deleteSession(req: Request, res: Response): void {
+  async getMessages(req: Request, res: Response): Promise<void> {
+    try {
+      const { sessionId } = req.params;
+      const session = await this.sessions.getSession(sessionId);
+
+      if (!session) {
+        res.status(404).json({ error: 'Session not found or expired' });
+        return;
+      }
+
+      const offset = this.decodeCursor(req.query.cursor);
+      if (offset === null) {
+        res.status(400).json({ error: 'Invalid cursor' });
+        return;
+      }
+
+      const limit = Math.min(
+        this.parsePositiveInt(req.query.limit, SessionController.DEFAULT_MESSAGE_PAGE_SIZE),
+        SessionController.MAX_MESSAGE_PAGE_SIZE
+      );
+      const { messages, total } = await this.sessions.getMessages(sessionId, offset, limit);
+      const nextOffset = offset + messages.length;
+      const hasMore = nextOffset < total;
+
+      res.json({
+        sessionId,
+        messages,
+        total,
+        nextCursor: hasMore ? this.encodeCursor(nextOffset) : null,
+        hasMore
+      });
+    } catch (error) {
+      console.error('Error getting session messages:', error);
+      res.status(500).json({ error: 'Failed to get session messages' });
+    }
+  }
+
+  async exportSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { sessionId } = req.params;
+      const format = String(req.query.format || 'json').toLowerCase() as TranscriptFormat;
+
+      if (!TRANSCRIPT_FORMATS.includes(format)) {
+        res.status(400).json({ error: `Invalid format. Use one of: ${TRANSCRIPT_FORMATS.join(', ')}` });
+        return;
+      }
+
+      const session = await this.sessions.getSession(sessionId);
+      if (!session) {
+        res.status(404).json({ error: 'Session not found or expired' });
+        return;
+      }
+
+      // Scripts are meant to be read aloud, so tags are stripped by default outside of JSON
+      const stripGestures = req.query.stripGestures === undefined
+        ? format !== 'json'
+        : req.query.stripGestures === 'true';
+
+      const messages = await this.sessions.getAllMessages(sessionId);
+      const transcript = exportTranscript(session, messages, format, stripGestures);
+
+      res.setHeader('Content-Type', transcript.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${sessionId}.${transcript.fileExtension}"`);
+      res.send(transcript.body);
+    } catch (error) {
+      console.error('Error exporting session:', error);
+      res.status(500).json({ error: 'Failed to export session' });
+    }
+  }
+
+  async updateSession(req: Request, res: Response): Promise<void> {
     try {
       const { sessionId } = req.params;
-      const deleted = this.chatAgent.clearSession(sessionId);
-      
+      const { title, personality, mood } = req.body || {};
+
+      const validationError = this.validateSessionFields({ title, personality, mood });
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const session = await this.sessions.updateSession(sessionId, { title, personality, mood });
+      if (!session) {
+        res.status(404).json({ error: 'Session not found or expired' });
+        return;
+      }
+
+      res.json(this.formatSession(session));
+    } catch (error) {
+      console.error('Error updating session:', error);
+      res.status(500).json({ error: 'Failed to update session' });
+    }
+  }
+
+  async deleteSession(req: Request, res: Response): Promise<void> {
+    try {
+      const { sessionId } = req.params;
+      const deleted = await this.chatAgent.clearSession(sessionId);
+
       if (!deleted) {
         res.status(404).json({ error: 'Session not found' });
         return;
       }
-      
+
       res.json({ message: 'Session deleted successfully' });
     } catch (error) {
       console.error('Error deleting session:', error);
@@ -63,16 +184,24 @@ export class SessionController {
     }
   }
 
-  getUserSessions(req: Request, res: Response): void {
+  async getUserSessions(req: Request, res: Response): Promise<void> {
     try {
       const { userId } = req.params;
-      
-      // With LangChain memory, we don't track user sessions the same way
-      // This would need to be implemented differently if user session tracking is needed
+      const limit = Math.min(
+        this.parsePositiveInt(req.query.limit, SessionController.DEFAULT_PAGE_SIZE),
+        SessionController.MAX_PAGE_SIZE
+      );
+      const offset = this.parseNonNegativeInt(req.query.offset, 0);
+
+      const { sessions, total } = await this.sessions.getUserSessions(userId, offset, limit);
+
       res.json({
-        message: 'User session tracking not available with LangChain memory system',
-        totalActiveSessions: this.chatAgent.getSessionCount(),
-        userId
+        userId,
+        sessions: sessions.map(session => this.formatSession(session)),
+        total,
+        limit,
+        offset,
+        hasMore: offset + sessions.length < total
       });
     } catch (error) {
       console.error('Error getting user sessions:', error);
@@ -80,12 +209,14 @@ export class SessionController {
     }
   }
 
-  getStats(req: Request, res: Response): void {
+  async getStats(req: Request, res: Response): Promise<void> {
     try {
+      const sessionStats = await this.sessions.getStats();
       const stats = {
-        totalSessions: this.chatAgent.getSessionCount(),
-        activeSessions: this.chatAgent.getSessionCount(),
-        memoryType: 'ConversationSummaryBufferMemory'
+        totalSessions: sessionStats.totalSessions,
+        activeSessions: sessionStats.activeSessions,
+        memoryType: this.chatAgent.getMemoryMode() === 'summary_buffer' ? 'ConversationSummaryBufferMemory' : 'BufferWindowMemory',
+        sessionStore: this.chatAgent.getSessionStoreKind()
       };
       res.json(stats);
     } catch (error) {
@@ -93,4 +224,64 @@ export class SessionController {
       res.status(500).json({ error: 'Failed to get statistics' });
     }
   }
-}
\ No newline at end of file
+
+  private formatSession(session: ChatSession) {
+    return {
+      id: session.id,
+      userId: session.userId,
+      title: session.title,
+      personality: session.personality,
+      mood: session.mood,
+      messageCount: session.messageCount,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      expiresAt: this.sessions.getExpiresAt(session)
+    };
+  }
+
+  private validateSessionFields({ userId, title, personality, mood }: Record<string, unknown>): string | null {
+    if (userId !== undefined && typeof userId !== 'string') {
+      return 'userId must be a string';
+    }
+
+    if (title !== undefined && typeof title !== 'string') {
+      return 'title must be a string';
+    }
+
+    if (personality !== undefined && !isPersonalityMode(personality)) {
+      return 'Invalid personality mode';
+    }
+
+    if (mood !== undefined && (typeof mood !== 'number' || mood < 0 || mood > 100)) {
+      return 'Mood must be a number between 0 and 100';
+    }
+
+    return null;
+  }
+
+  private encodeCursor(offset: number): string {
+    return Buffer.from(`o:${offset}`).toString('base64url');
+  }
+
+  private decodeCursor(cursor: unknown): number | null {
+    if (cursor === undefined || cursor === '') {
+      return 0;
+    }
+
+    const match = Buffer.from(String(cursor), 'base64url').toString('utf8').match(/^o:(\d+)$/);
+    return match ? parseInt(match[1], 10) : null;
+  }
+
+  /**
+   * Page sizes: a limit of 0 would never advance the cursor, so it gets the fallback like any other bad value
+   */
+  private parsePositiveInt(value: unknown, fallback: number): number {
+    const parsed = parseInt(String(value ?? ''), 10);
+    return Number.isFinite(parsed) && parsed >= 1 ? parsed : fallback;
+  }
+
+  private parseNonNegativeInt(value: unknown, fallback: number): number {
+    const parsed = parseInt(String(value ?? ''), 10);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  }
+}
@@ -1,26 +1,83 @@
 import { Request, Response } from 'express';
-import { analyzeWithRhubarb, RhubarbRequestPayload } from '../services/rhubarbService';
+import { RhubarbRequestPayload, RhubarbResult, validateRhubarbOptions } from '../services/rhubarbService';
+import { rhubarbQueue, RhubarbQueueFullError } from '../services/rhubarbQueue';
+import { parseGestureTags } from '../services/gestures';
+import { buildGestureTimeline } from '../services/gestureTimeline';
+import { resolveTtsEngine, synthesizeSpeech, validateSynthesisOptions } from '../services/ttsEngines';
+import { getVoiceSettings, isPersonalityMode } from '../services/personalities';
+import { TtsSynthesizeRequest } from '../types';
 import { Logger } from '../utils/logger';
 
 export class TtsController {
+  private static readonly MAX_TEXT_LENGTH = 5000;
+  private static readonly DEFAULT_MOOD = 50;
+  private static readonly QUEUE_FULL_RETRY_AFTER_S = 5;
+
+  /**
+   * POST /tts/rhubarb - mouth cues for the audio. When `text` is given (the reply, tags included)
+   * the response also has a timeline of when each mood and gesture tag fires. With `async: true`
+   * (or ?async=true) the analysis runs in the background: 202 with a job to poll. recognizer,
+   * extendedShapes and exportFormat override the RHUBARB_* defaults; cues always come back as JSON,
+   * with Rhubarb's own output under `export` for other formats.
+   */
   async analyzeRhubarb(req: Request, res: Response): Promise<void> {
     const requestId = req.headers['x-request-id'] as string || 'unknown';
 
     try {
-      const payload = req.body as RhubarbRequestPayload;
+      const body = req.body as RhubarbRequestPayload & { async?: boolean };
 
-      if (!payload?.audioContent || !payload?.audioEncoding) {
+      if (!body?.audioContent || !body?.audioEncoding) {
         res.status(400).json({ error: 'Missing required fields: audioContent, audioEncoding' });
         return;
       }
 
-      const result = await analyzeWithRhubarb(payload);
+      if (typeof body.audioContent !== 'string') {
+        res.status(400).json({ error: 'audioContent must be a base64 string' });
+        return;
+      }
 
-      res.json({
+      if (body.text !== undefined && typeof body.text !== 'string') {
+        res.status(400).json({ error: 'text must be a string' });
+        return;
+      }
+
+      const optionsError = validateRhubarbOptions(body);
+      if (optionsError) {
+        res.status(400).json({ error: optionsError });
+        return;
+      }
+
+      // Rhubarb gets the dialog without tags, which are never spoken
+      const parsed = body.text?.trim() ? parseGestureTags(body.text) : null;
+      const payload: RhubarbRequestPayload = {
+        audioContent: body.audioContent,
+        audioEncoding: body.audioEncoding,
+        sampleRateHertz: body.sampleRateHertz,
+        channels: body.channels,
+        text: parsed ? parsed.spokenText : body.text,
+        recognizer: body.recognizer,
+        extendedShapes: body.extendedShapes,
+        exportFormat: body.exportFormat
+      };
+      const present = (result: RhubarbResult) => ({
         metadata: result.metadata,
-        mouthCues: result.mouthCues
+        mouthCues: result.mouthCues,
+        timeline: parsed ? buildGestureTimeline(parsed, result.mouthCues, result.metadata.duration) : undefined,
+        export: result.export
       });
+
+      if (body.async === true || req.query.async === 'true') {
+        const job = rhubarbQueue.submit(payload, present);
+        const statusUrl = `/api/tts/rhubarb/jobs/${job.id}`;
+        res.status(202).location(statusUrl).json({ jobId: job.id, status: job.status, statusUrl });
+        return;
+      }
+
+      res.json(present(await rhubarbQueue.analyze(payload)));
     } catch (error) {
+      if (this.sendQueueFull(error, res)) {
+        return;
+      }
       Logger.error('Rhubarb analysis failed', error as Error, {
         requestId
       });
@@ -30,6 +87,122 @@ export class TtsController {
       });
     }
   }
+
+  /**
+   * GET /tts/rhubarb/jobs/:id - an async analysis; finished jobs are kept for a while, then expire
+   */
+  getRhubarbJob(req: Request, res: Response): void {
+    const job = rhubarbQueue.getJob(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found or expired' });
+      return;
+    }
+    res.json(job);
+  }
+
+  /**
+   * POST /tts/synthesize - speak a reply and lip-sync it in one call: WAV audio, its mouth cues and
+   * the gesture timeline. The personality's voice profile (default personality if none is given)
+   * picks the voice and prosody; an explicit voice wins.
+   */
+  async synthesize(req: Request, res: Response): Promise<void> {
+    const requestId = req.headers['x-request-id'] as string || 'unknown';
+
+    try {
+      const request = req.body as TtsSynthesizeRequest;
+
+      const validationError = this.validateSynthesizeRequest(request);
+      if (validationError) {
+        res.status(400).json({ error: validationError });
+        return;
+      }
+
+      const parsed = parseGestureTags(request.text);
+      if (!parsed.spokenText) {
+        res.status(400).json({ error: 'Nothing to speak once mood and gesture tags are removed' });
+        return;
+      }
+
+      const engine = resolveTtsEngine(request.engine);
+      const voiceSettings = getVoiceSettings(
+        request.personality || 'default',
+        request.mood ?? TtsController.DEFAULT_MOOD,
+        engine
+      );
+      const speech = await synthesizeSpeech(parsed.spokenText, {
+        ...voiceSettings,
+        engine,
+        voice: request.voice || voiceSettings.voice
+      });
+      const audioContent = speech.audio.toString('base64');
+      const result = await rhubarbQueue.analyze({ audioContent, audioEncoding: 'WAV', text: parsed.spokenText });
+
+      Logger.info('Speech synthesized', {
+        requestId,
+        engine: speech.engine,
+        voice: speech.voice,
+        rate: speech.rate,
+        pitch: speech.pitch,
+        personality: request.personality,
+        textLength: parsed.spokenText.length,
+        duration: result.metadata.duration
+      });
+
+      res.json({
+        audioContent,
+        audioEncoding: 'WAV',
+        engine: speech.engine,
+        voice: speech.voice,
+        rate: speech.rate,
+        pitch: speech.pitch,
+        metadata: result.metadata,
+        mouthCues: result.mouthCues,
+        timeline: buildGestureTimeline(parsed, result.mouthCues, result.metadata.duration)
+      });
+    } catch (error) {
+      if (this.sendQueueFull(error, res)) {
+        return;
+      }
+      Logger.error('Speech synthesis failed', error as Error, {
+        requestId
+      });
+      res.status(500).json({
+        error: 'Failed to synthesize speech',
+        details: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      });
+    }
+  }
+
+  /**
+   * Answer 503 when the lip-sync queue turned the work away. Returns whether it did.
+   */
+  private sendQueueFull(error: unknown, res: Response): boolean {
+    if (!(error instanceof RhubarbQueueFullError)) {
+      return false;
+    }
+    res.status(503).set('Retry-After', String(TtsController.QUEUE_FULL_RETRY_AFTER_S)).json({ error: error.message });
+    return true;
+  }
+
+  private validateSynthesizeRequest(request: TtsSynthesizeRequest): string | null {
+    if (!request || typeof request.text !== 'string' || !request.text.trim()) {
+      return 'Missing required field: text';
+    }
+
+    if (request.text.length > TtsController.MAX_TEXT_LENGTH) {
+      return `text must be at most ${TtsController.MAX_TEXT_LENGTH} characters`;
+    }
+
+    if (request.personality !== undefined && !isPersonalityMode(request.personality)) {
+      return 'Invalid personality mode';
+    }
+
+    if (request.mood !== undefined && (typeof request.mood !== 'number' || request.mood < 0 || request.mood > 100)) {
+      return 'Mood must be between 0 and 100';
+    }
+
+    return validateSynthesisOptions({ engine: request.engine, voice: request.voice });
+  }
 }
 
 export const ttsController = new TtsController();
@@ -2,19 +2,29 @@ import { Router } from 'express';
 import { ChatController } from '../controllers/chatController';
 import { SessionController } from '../controllers/sessionController';
 import { PersonalityController } from '../controllers/personalityController';
+import { ModelController } from '../controllers/modelController';
 
 const router = Router();
 
-const chatController = new ChatController();
+export const chatController = new ChatController();
 const sessionController = new SessionController(chatController.getChatAgent());
 const personalityController = new PersonalityController();
+const modelController = new ModelController(
+  chatController.getChatAgent().getModelRegistry(),
+  chatController.getChatAgent().getModelFailover()
+);
 
 // Chat routes
 router.post('/agent/chat', (req, res) => chatController.processChat(req, res));
+router.get('/agent/chat/stream/:requestId', (req, res) => chatController.resumeStream(req, res));
+router.post('/agent/chat/:requestId/cancel', (req, res) => chatController.cancelChat(req, res));
 
 // Session routes
 router.post('/agent/session', (req, res) => sessionController.createSession(req, res));
 router.get('/agent/session/:sessionId', (req, res) => sessionController.getSession(req, res));
+router.get('/agent/session/:sessionId/messages', (req, res) => sessionController.getMessages(req, res));
+router.get('/agent/session/:sessionId/export', (req, res) => sessionController.exportSession(req, res));
+router.put('/agent/session/:sessionId', (req, res) => sessionController.updateSession(req, res));
 router.delete('/agent/session/:sessionId', (req, res) => sessionController.deleteSession(req, res));
 router.get('/agent/user/:userId/sessions', (req, res) => sessionController.getUserSessions(req, res));
 router.get('/agent/stats', (req, res) => sessionController.getStats(req, res));
@@ -23,5 +33,8 @@ router.get('/agent/stats', (req, res) => sessionController.getStats(req, res));
 router.get('/agent/personality/:personality', (req, res) => personalityController.getPersonality(req, res));
 router.get('/agent/personalities', (req, res) => personalityController.getAllPersonalities(req, res));
 
+// Model routes
+router.get('/agent/models', (req, res) => modelController.getModels(req, res));
+
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { Server } from 'http';
+import { WebSocketServer } from 'ws';
+import { chatController } from './chat';
+import { ChatSocketController } from '../controllers/chatSocketController';
+import { isOriginAllowed } from '../utils/allowedOrigins';
+import { Logger } from '../utils/logger';
+
+export const CHAT_SOCKET_PATH = '/api/agent/ws';
+
+/**
+ * Serve the chat WebSocket on the same HTTP server as the Express app
+ */
+export function attachChatSocket(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+  const chatSocketController = new ChatSocketController(chatController);
+
+  server.on('upgrade', (req, socket, head) => {
+    const { pathname } = new URL(req.url || '', 'http://localhost');
+    if (pathname !== CHAT_SOCKET_PATH) {
+      socket.destroy();
+      return;
+    }
+
+    // Browsers don't apply CORS to WebSockets, so the origin is checked here
+    if (!isOriginAllowed(req.headers.origin)) {
+      Logger.warn('Chat socket origin blocked', { origin: req.headers.origin });
+      socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, ws => wss.emit('connection', ws, req));
+  });
+
+  wss.on('connection', (ws, req) => chatSocketController.handleConnection(ws, req));
+  return wss;
+}
@@ -1,45 +1,22 @@
-// import express from 'express';
-// import { DelayedActionProcessor } from '../services/delayedActionProcessor';
-// import { Logger } from '../utils/logger';
+import { Router } from 'express';
+import { DelayedActionController } from '../controllers/delayedActionController';
+import { DelayedActionProcessor } from '../services/delayedActionProcessor';
+import { DelayedActionDelivery } from '../services/delayedActionDelivery';
+import { chatController } from './chat';
 
-// const router = express.Router();
-// let processor: DelayedActionProcessor | null = null;
+const router = Router();
 
-// /**
-//  * Initialize delayed action processor
-//  * This should be called from server.ts
-//  */
-// export function initializeDelayedActionProcessor(delayedProcessor: DelayedActionProcessor): void {
-//   processor = delayedProcessor;
-// }
+const chatAgent = chatController.getChatAgent();
+const store = chatAgent.getDelayedActionStore();
+const delivery = new DelayedActionDelivery(store);
+// Started by server.ts; tests drive it through POST /trigger instead
+export const delayedActionProcessor = new DelayedActionProcessor(chatAgent, store, delivery);
+const delayedActionController = new DelayedActionController(delayedActionProcessor, store, delivery);
 
-// /**
-//  * Get processor status
-//  */
-// router.get('/status', (req, res) => {
-//   if (!processor) {
-//     return res.status(503).json({ error: 'Delayed action processor not initialized' });
-//   }
+router.get('/status', (req, res) => delayedActionController.getStatus(req, res));
+router.post('/trigger', (req, res) => delayedActionController.trigger(req, res));
+router.get('/stream/:sessionId', (req, res) => delayedActionController.streamSession(req, res));
+router.get('/session/:sessionId', (req, res) => delayedActionController.getSessionActions(req, res));
+router.delete('/:actionId', (req, res) => delayedActionController.cancelAction(req, res));
 
-//   const status = processor.getStatus();
-//   res.json(status);
-// });
-
-// /**
-//  * Manual trigger for testing
-//  */
-// router.post('/trigger', async (req, res) => {
-//   if (!processor) {
-//     return res.status(503).json({ error: 'Delayed action processor not initialized' });
-//   }
-
-//   try {
-//     await processor.triggerManualProcess();
-//     res.json({ success: true, message: 'Manual processing triggered' });
-//   } catch (error) {
-//     Logger.error('Manual delayed action trigger failed', error as Error);
-//     res.status(500).json({ error: 'Failed to trigger processing' });
-//   }
-// });
-
-// export default router;
\ No newline at end of file
+export default router;
@@ -15,6 +15,7 @@ const userTokens = new Map<string, {
 const SPOTIFY_CLIENT_ID = process.env.SPOTIFY_CLIENT_ID;
 const SPOTIFY_CLIENT_SECRET = process.env.SPOTIFY_CLIENT_SECRET;
 const SPOTIFY_REDIRECT_URI = process.env.SPOTIFY_REDIRECT_URI || 'http://127.0.0.1:8000/api/spotify/callback';
+const SPOTIFY_ACCOUNTS_URL = process.env.SPOTIFY_ACCOUNTS_URL || 'https://accounts.spotify.com';
 
 // Step 1: Redirect user to Spotify OAuth
 router.get('/login', (req, res) => {
@@ -29,7 +30,7 @@ router.get('/login', (req, res) => {
     'streaming'
   ].join(' ');
 
-  const authURL = new URL('https://accounts.spotify.com/authorize');
+  const authURL = new URL(`${SPOTIFY_ACCOUNTS_URL}/authorize`);
   authURL.searchParams.append('response_type', 'code');
   authURL.searchParams.append('client_id', SPOTIFY_CLIENT_ID);
   authURL.searchParams.append('scope', scopes);
@@ -67,7 +68,7 @@ router.get('/callback', async (req, res) => {
 
   try {
     // Exchange code for tokens
-    const tokenResponse = await fetch('https://accounts.spotify.com/api/token', {
+    const tokenResponse = await fetch(`${SPOTIFY_ACCOUNTS_URL}/api/token`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -4,5 +4,7 @@ import { ttsController } from '../controllers/ttsController';
 const router = Router();
 
 router.post('/tts/rhubarb', (req, res) => ttsController.analyzeRhubarb(req, res));
+router.get('/tts/rhubarb/jobs/:id', (req, res) => ttsController.getRhubarbJob(req, res));
+router.post('/tts/synthesize', (req, res) => ttsController.synthesize(req, res));
 
 export default router;
@@ -1,224 +1,255 @@
-import { ChatOpenAI } from '@langchain/openai';
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
-import { ChatGroq } from '@langchain/groq';
-import { createReactAgent } from '@langchain/langgraph/prebuilt';
-import { HumanMessage, AIMessage, BaseMessage, SystemMessage } from '@langchain/core/messages';
+import { HumanMessage, AIMessage, AIMessageChunk, BaseMessage, MessageContent, SystemMessage, isAIMessage } from '@langchain/core/messages';
 import { Tool } from '@langchain/core/tools';
-import { AgentRequest, AgentResponse, ConversationMessage, PersonalityMode } from '../types';
+import { AgentRequest, AgentResponse, AgentStreamEvent, CancelReason, ConversationMessage, PersonalityMode, SessionMemory } from '../types';
 import { getPersonalityPrompt } from './personalities';
 import { Logger } from '../utils/logger';
 import { WebSearchTool } from '../tools/webSearchTool';
 import { WebOpenTool } from '../tools/webOpenTool';
 import { SpotifyTool } from '../tools/spotifyTool';
-// import { DelayedActionTool } from '../tools/delayedActionTool';
+import { SessionStore, createSessionStore } from './sessionStore';
+import { ModelRegistry, ModelEntry } from './modelRegistry';
+import { ModelFailover, isRetryableError } from './modelFailover';
+import { SessionService } from './sessionService';
+import { resolveHistoryMode, normalizeClientHistory } from './clientHistory';
+import { CancelledTurnPolicy, getCancelReason, getCancelledTurnPolicy } from './generationTracker';
+import { getRequestContext } from '../utils/requestContext';
+import { parseGestureTags } from './gestures';
+import {
+  MemoryMode,
+  getMemoryMode,
+  estimateMessagesTokens,
+  selectMessagesToEvict,
+  summarizeConversation
+} from './conversationSummary';
+import { DelayedActionTool } from '../tools/delayedActionTool';
+import { DelayedActionStore, createDelayedActionStore } from './delayedActionStore';
 import dotenv from "dotenv";
 dotenv.config(); 
 
+/**
+ * Filled in by streamMessage once a model starts answering, so callers can report it
+ */
+export interface StreamOutcome {
+  model?: string;
+  provider?: string;
+  cancelReason?: CancelReason;
+}
+
 /**
  * Main chat agent service that handles conversation processing with LLM models and tools
  */
 export class ChatAgentService {
-  private model!: ChatOpenAI | ChatGoogleGenerativeAI | ChatGroq;
-  private agent: any;
+  private models: ModelRegistry;
+  private failover: ModelFailover;
   private tools: Tool[];
-  private sessionMemories: Map<string, ConversationMessage[]> = new Map();
+  private sessionStore: SessionStore;
+  private sessionService: SessionService;
+  private delayedActionStore: DelayedActionStore;
+  private memoryMode: MemoryMode;
+  private memoryMaxTokens: number;
+  private cancelledTurnPolicy: CancelledTurnPolicy;
+  // Sessions whose summary is being updated in the background
+  private summaryFolds: Set<string> = new Set();
   
   private static readonly MAX_HISTORY_LENGTH = 20;
+  private static readonly DEFAULT_MEMORY_MAX_TOKENS = 2000;
   private static readonly DEFAULT_CONFIDENCE = 0.85;
   private static readonly AGENT_TIMEOUT = 30000;
-
-  constructor() {
+  private static readonly MAX_TOOL_INPUT_LENGTH = 200;
+
+  constructor(
+    sessionStore: SessionStore = createSessionStore(),
+    delayedActionStore: DelayedActionStore = createDelayedActionStore()
+  ) {
+    this.sessionStore = sessionStore;
+    this.delayedActionStore = delayedActionStore;
+    this.sessionService = new SessionService(sessionStore);
+    this.sessionService.startCleanupTimer();
+    this.memoryMode = getMemoryMode();
+    this.memoryMaxTokens = parseInt(process.env.MEMORY_MAX_TOKENS || '', 10) || ChatAgentService.DEFAULT_MEMORY_MAX_TOKENS;
+    this.cancelledTurnPolicy = getCancelledTurnPolicy();
     this.tools = [
       new SpotifyTool(),
       new WebSearchTool(),
       new WebOpenTool(),
-      // new DelayedActionTool(),
+      new DelayedActionTool(delayedActionStore),
       // Add other tools here as needed
     ];
-    this.initializeModel();
-    this.initializeAgent();
+    this.models = new ModelRegistry(this.tools);
+    this.failover = new ModelFailover(this.models);
+    Logger.info('Default chat model selected', { modelId: this.models.getDefault().id });
   }
 
   /**
-   * Initialize the appropriate LLM model based on available API keys
-   * Priority: AI_PROVIDER override > Groq > OpenAI > Google
+   * Load conversation memory (running summary plus recent messages) for a session from the session store
    */
-  private initializeModel(): void {
-    const modelConfig = { temperature: 0.8, reasoning_effort: 'high' };
-
-    const hasUsableKey = (value?: string): boolean => {
-      if (!value) return false;
-      const trimmed = value.trim();
-      if (!trimmed) return false;
-      return !trimmed.startsWith('your_');
-    };
-
-    const hasGroq = hasUsableKey(process.env.GROQ_API_KEY);
-    const hasOpenAI = hasUsableKey(process.env.OPENAI_API_KEY);
-    const hasGoogle = hasUsableKey(process.env.GOOGLE_API_KEY);
-    const requestedProvider = (process.env.AI_PROVIDER || '').trim().toLowerCase();
-
-    const initGroq = (): void => {
-      this.model = new ChatGroq({
-        model: process.env.GROQ_MODEL || 'openai/gpt-oss-20b',
-        ...modelConfig
-      });
-      Logger.info('Initialized Groq model with tool calling support');
-    };
-
-    const initOpenAI = (): void => {
-      this.model = new ChatOpenAI({
-        modelName: process.env.OPENAI_MODEL || 'gpt-4o-mini',
-        streaming: true,
-        ...modelConfig
-      });
-      Logger.info('Initialized OpenAI model');
-    };
-
-    const initGoogle = (): void => {
-      this.model = new ChatGoogleGenerativeAI({
-        model: process.env.GOOGLE_MODEL || 'gemini-1.5-flash',
-        ...modelConfig
-      });
-      Logger.info('Initialized Google Gemini model');
-    };
-
-    if (requestedProvider) {
-      if (requestedProvider === 'groq') {
-        if (!hasGroq) throw new Error('AI_PROVIDER=groq but GROQ_API_KEY is missing or invalid.');
-        initGroq();
-        return;
-      }
-      if (requestedProvider === 'openai') {
-        if (!hasOpenAI) throw new Error('AI_PROVIDER=openai but OPENAI_API_KEY is missing or invalid.');
-        initOpenAI();
-        return;
-      }
-      if (requestedProvider === 'google') {
-        if (!hasGoogle) throw new Error('AI_PROVIDER=google but GOOGLE_API_KEY is missing or invalid.');
-        initGoogle();
-        return;
-      }
-      throw new Error(`Unsupported AI_PROVIDER "${process.env.AI_PROVIDER}". Use one of: groq, openai, google.`);
+  private async getOrCreateMemory(sessionId: string): Promise<SessionMemory> {
+    if (!sessionId) {
+      return { summary: null, messages: [] };
     }
 
-    if (hasGroq) {
-      initGroq();
-      return;
-    }
-    if (hasOpenAI) {
-      initOpenAI();
-      return;
-    }
-    if (hasGoogle) {
-      initGoogle();
-      return;
+    const [messages, summary] = await Promise.all([
+      this.sessionStore.get(sessionId),
+      this.sessionStore.getSummary(sessionId)
+    ]);
+    if (messages.length === 0 && !summary) {
+      Logger.debug('Created new session memory', { sessionId, store: this.sessionStore.kind });
     }
 
-    const error = 'No API key found. Please set GROQ_API_KEY, OPENAI_API_KEY, or GOOGLE_API_KEY in your environment variables.';
-    Logger.error('Model initialization failed', new Error(error));
-    throw new Error(error);
+    return { summary, messages };
   }
 
   /**
-   * Initialize the ReAct agent with the configured model and tools
+   * Build the memory for this turn, applying the client history merge policy (see HistoryMode)
    */
-  private async initializeAgent(): Promise<void> {
-    try {
-      const agentConfig = {
-        modelType: this.model.constructor.name,
-        toolsCount: this.tools.length,
-        toolNames: this.tools.map(t => t.name)
-      };
-      
-      Logger.info('Initializing ReAct agent', agentConfig);
-      
-      this.agent = createReactAgent({
-        llm: this.model,
-        tools: this.tools,
-      });
-      
-      Logger.info('ReAct agent initialized successfully', agentConfig);
-    } catch (error) {
-      const errorContext = {
-        modelType: this.model?.constructor?.name,
-        toolsCount: this.tools?.length,
-        toolNames: this.tools?.map(t => t.name)
-      };
-      
-      Logger.error('Failed to initialize agent', error as Error, errorContext);
-      throw error;
-    }
-  }
+  private async loadConversationMemory(request: AgentRequest, sessionId: string | undefined, requestId: string): Promise<SessionMemory> {
+    const clientHistory = normalizeClientHistory(request.conversationHistory);
+    const memory = await this.getOrCreateMemory(sessionId || '');
+    const mode = resolveHistoryMode(sessionId, memory.messages.length + (memory.summary ? 1 : 0));
+
+    Logger.logAgentThinking(requestId, 'history_mode_resolved', {
+      mode,
+      clientHistoryLength: clientHistory.length,
+      storedHistoryLength: memory.messages.length
+    });
 
-  /**
-   * Get or create conversation memory for a session
-   */
-  private getOrCreateMemory(sessionId: string): ConversationMessage[] {
-    if (!sessionId) {
-      return [];
+    if (clientHistory.length === 0 || mode === 'server') {
+      return memory;
     }
 
-    const memoryKey = this.getMemoryKey(sessionId);
-    if (!this.sessionMemories.has(memoryKey)) {
-      this.sessionMemories.set(memoryKey, []);
-      Logger.debug('Created new session memory', { sessionId });
+    if (mode === 'stateless') {
+      // Nothing is persisted, so keep only what fits the token budget
+      const { kept } = selectMessagesToEvict(clientHistory, this.memoryMaxTokens);
+      return { summary: null, messages: kept };
     }
 
-    return this.sessionMemories.get(memoryKey) as ConversationMessage[];
-  }
-  
-  /**
-   * Generate consistent memory key for sessions
-   */
-  private getMemoryKey(sessionId: string): string {
-    return `session_${sessionId}`;
+    // Seed a new session with the history the client already has
+    await this.sessionStore.append(sessionId as string, clientHistory);
+    const firstUserMessage = clientHistory.find(message => message.role === 'user');
+    await this.sessionService.recordTurn(sessionId as string, {
+      userId: request.userId,
+      personality: request.personality,
+      mood: request.mood,
+      userMessage: firstUserMessage?.content || '',
+      messageCount: clientHistory.length
+    });
+    Logger.info('Seeded session from client conversation history', {
+      requestId,
+      sessionId,
+      importedMessages: clientHistory.length
+    });
+
+    return this.getOrCreateMemory(sessionId as string);
   }
 
   /**
    * Save conversation turn to session memory with proper cleanup
    */
-  private saveToMemory(sessionId: string, userMessage: string, assistantMessage: string): void {
+  private async saveToMemory(
+    sessionId: string,
+    request: AgentRequest,
+    assistantMessage: string,
+    modelEntry: ModelEntry = this.models.getDefault(),
+    cancelled: boolean = false
+  ): Promise<void> {
     if (!sessionId) {
       Logger.warn('Attempted to save memory without session ID');
       return;
     }
 
-    const memoryKey = this.getMemoryKey(sessionId);
-    let messages = this.sessionMemories.get(memoryKey) || [];
-    
     const timestamp = new Date();
     
-    // Add user message
     const userMsg: ConversationMessage = {
       role: 'user',
-      content: userMessage,
+      content: request.message,
       timestamp
     };
-    messages.push(userMsg);
 
-    // Add assistant message
     const assistantMsg: ConversationMessage = {
       role: 'assistant', 
       content: assistantMessage,
-      timestamp
+      timestamp,
+      ...(cancelled ? { cancelled: true } : {})
     };
-    messages.push(assistantMsg);
 
-    // Keep only last N messages to prevent memory bloat
-    if (messages.length > ChatAgentService.MAX_HISTORY_LENGTH) {
-      const removedCount = messages.length - ChatAgentService.MAX_HISTORY_LENGTH;
-      messages = messages.slice(-ChatAgentService.MAX_HISTORY_LENGTH);
+    const totalMessages = await this.sessionStore.append(sessionId, [userMsg, assistantMsg]);
+    await this.sessionService.recordTurn(sessionId, {
+      userId: request.userId,
+      personality: request.personality,
+      mood: request.mood,
+      userMessage: request.message,
+      messageCount: 2
+    });
+
+    if (this.memoryMode === 'summary_buffer') {
+      this.scheduleSummaryFold(sessionId, modelEntry);
+    } else if (totalMessages > ChatAgentService.MAX_HISTORY_LENGTH) {
+      // Keep only last N messages to prevent memory bloat
+      const removedCount = await this.sessionStore.trim(sessionId, ChatAgentService.MAX_HISTORY_LENGTH);
       Logger.debug('Trimmed conversation history', { sessionId, removedCount });
     }
 
-    this.sessionMemories.set(memoryKey, messages);
     Logger.debug('Saved conversation to memory', { 
       sessionId, 
-      totalMessages: messages.length 
+      totalMessages,
+      memoryMode: this.memoryMode,
+      store: this.sessionStore.kind
     });
   }
 
+  /**
+   * Update the summary after the reply has gone out rather than making the user wait for a second
+   * model call. One fold per session at a time; a turn that finds one running leaves its overflow
+   * to the next turn.
+   */
+  private scheduleSummaryFold(sessionId: string, modelEntry: ModelEntry): void {
+    if (this.summaryFolds.has(sessionId)) {
+      return;
+    }
+    this.summaryFolds.add(sessionId);
+    void this.foldEvictedIntoSummary(sessionId, modelEntry).finally(() => this.summaryFolds.delete(sessionId));
+  }
+
+  /**
+   * Move the oldest messages that no longer fit the token budget into the running summary, using the
+   * model that answered the turn
+   */
+  private async foldEvictedIntoSummary(sessionId: string, modelEntry: ModelEntry): Promise<void> {
+    const messages = await this.sessionStore.get(sessionId);
+    if (estimateMessagesTokens(messages) <= this.memoryMaxTokens) {
+      return;
+    }
+
+    const { evicted, kept } = selectMessagesToEvict(messages, this.memoryMaxTokens);
+    if (evicted.length === 0) {
+      return;
+    }
+
+    try {
+      const previousSummary = await this.sessionStore.getSummary(sessionId);
+      const summary = await summarizeConversation(modelEntry.chatModel, previousSummary, evicted);
+
+      await this.sessionStore.setSummary(sessionId, summary);
+      // Turns saved while the summary was written are newer than `kept`, so they stay too
+      const added = (await this.sessionStore.get(sessionId)).length - messages.length;
+      await this.sessionStore.trim(sessionId, kept.length + Math.max(0, added));
+
+      Logger.debug('Folded evicted messages into conversation summary', {
+        sessionId,
+        evictedCount: evicted.length,
+        keptCount: kept.length,
+        modelId: modelEntry.id,
+        summaryLength: summary.length
+      });
+    } catch (error) {
+      // Keep the messages so the next turn can retry rather than silently forgetting them
+      Logger.error('Failed to update conversation summary', error as Error, {
+        sessionId,
+        evictedCount: evicted.length
+      });
+    }
+  }
+
   /**
    * Convert conversation history to LangChain message format
    */
@@ -244,57 +275,85 @@ export class ChatAgentService {
     try {
       this.validateRequest(request);
       
-      const conversationHistory = this.getOrCreateMemory(sessionId || '');
+      const memory = await this.loadConversationMemory(request, sessionId, requestId);
       
       Logger.logAgentThinking(requestId, 'processing_started', {
         personality: request.personality,
         mood: request.mood,
         messageLength: request.message.length,
         sessionId: sessionId || 'temporary',
-        historyLength: conversationHistory.length,
+        historyLength: memory.messages.length,
+        hasSummary: !!memory.summary,
         availableTools: this.tools.map(tool => tool.name)
       });
       
-      const messages = this.buildMessageChain(request, conversationHistory, requestId);
-      
-      Logger.logAgentThinking(requestId, 'agent_invocation_started');
+      const messages = this.buildMessageChain(request, memory, requestId);
+      const selectedEntry = this.models.resolve(request, request.personality);
       
-      let response: any;
-      let method: string;
+      Logger.logAgentThinking(requestId, 'agent_invocation_started', { modelId: selectedEntry.id });
       
-      if (this.tools.length === 0) {
-        response = await this.processWithDirectModel(messages, requestId);
-        method = 'direct_model';
-      } else {
-        response = await this.processWithAgent(messages, requestId, request);
-        method = 'agent_invoke';
-      }
+      let usedTools = false;
+      const { result: response, entry: modelEntry, attempts } = await this.failover.run(selectedEntry, requestId, async (entry, markCommitted) => {
+        usedTools = await this.canUseTools(entry, requestId);
+        return usedTools
+          ? this.processWithAgent(entry, messages, requestId, request, markCommitted)
+          : this.processWithDirectModel(entry, messages, requestId);
+      });
+      const method = usedTools ? 'agent_invoke' : 'direct_model';
       
       const finalMessage = await this.extractFinalResponse(response, request, requestId);
       const responseTime = Date.now() - startTime;
       const confidence = ChatAgentService.DEFAULT_CONFIDENCE + Math.random() * 0.15;
 
       // Save the conversation to memory
-      this.saveToMemory(sessionId || '', request.message, finalMessage);
+      await this.saveToMemory(sessionId || '', request, finalMessage, modelEntry);
       
       Logger.logAgentThinking(requestId, 'response_formatted', {
         responseTime,
         confidence,
         responseLength: finalMessage.length,
         memorySaved: true,
-        method
+        method,
+        modelId: modelEntry.id,
+        failedOver: modelEntry.id !== selectedEntry.id,
+        providersTried: attempts
       });
       
-      return {
+      return this.withGestures({
         message: finalMessage,
         personality: request.personality,
         confidence,
-        responseTime
-      };
+        responseTime,
+        model: modelEntry.id,
+        provider: modelEntry.provider
+      }, requestId);
 
     } catch (error) {
-      return this.handleProcessingError(error, request, requestId, Date.now() - startTime);
+      const cancelReason = getCancelReason(getRequestContext()?.signal);
+      if (cancelReason) {
+        // Nothing was generated yet, so there is no partial reply to keep whatever the policy
+        Logger.info('Chat request cancelled', { requestId, reason: cancelReason, memorySaved: false });
+        return {
+          message: '',
+          personality: request.personality,
+          confidence: 0,
+          responseTime: Date.now() - startTime,
+          cancelled: true
+        };
+      }
+      return this.withGestures(this.handleProcessingError(error, request, requestId, Date.now() - startTime), requestId);
+    }
+  }
+
+  /**
+   * Add the spoken text, mood and gesture cues parsed from the reply's tags
+   */
+  private withGestures(response: AgentResponse, requestId: string): AgentResponse {
+    const { spokenText, mood, gestures, repairs } = parseGestureTags(response.message);
+    if (repairs.length > 0) {
+      Logger.debug('Repaired gesture tags in reply', { requestId, repairs });
     }
+    return { ...response, spokenText, mood, gestures };
   }
 
         
@@ -314,7 +373,7 @@ export class ChatAgentService {
   /**
    * Build the message chain for the LLM
    */
-  private buildMessageChain(request: AgentRequest, history: ConversationMessage[], requestId: string): BaseMessage[] {
+  private buildMessageChain(request: AgentRequest, memory: SessionMemory, requestId: string): BaseMessage[] {
     const systemPrompt = getPersonalityPrompt(request.personality, request.mood);
     
     Logger.logAgentThinking(requestId, 'personality_prompt_generated', {
@@ -328,11 +387,19 @@ export class ChatAgentService {
     // Add system message first
     messages.push(new SystemMessage(systemPrompt));
 
+    // Add the running summary of turns that no longer fit in the buffer
+    if (memory.summary) {
+      messages.push(new SystemMessage(`Summary of the earlier conversation with this user:\n${memory.summary}`));
+      Logger.logAgentThinking(requestId, 'summary_loaded', {
+        summaryLength: memory.summary.length
+      });
+    }
+
     // Add conversation history
-    if (history.length > 0) {
-      messages.push(...this.convertToLangChainMessages(history));
+    if (memory.messages.length > 0) {
+      messages.push(...this.convertToLangChainMessages(memory.messages));
       Logger.logAgentThinking(requestId, 'history_loaded', {
-        historyMessages: history.length 
+        historyMessages: memory.messages.length 
       });
     }
 
@@ -346,33 +413,62 @@ export class ChatAgentService {
     return messages;
   }
   
+  /**
+   * Tools are only offered to models that can call them; others get a plain conversation
+   */
+  private async canUseTools(modelEntry: ModelEntry, requestId: string): Promise<boolean> {
+    if (this.tools.length === 0) {
+      return false;
+    }
+
+    const supported = await modelEntry.supportsTools();
+    if (!supported) {
+      Logger.debug('Model does not support tool calling, using direct model', { requestId, modelId: modelEntry.id });
+    }
+    return supported;
+  }
+
   /**
    * Process message using direct model call (no tools)
    */
-  private async processWithDirectModel(messages: BaseMessage[], requestId: string): Promise<any> {
-    Logger.debug('Using direct model call (no tools)', { requestId });
-    const directResponse = await this.model.invoke(messages);
+  private async processWithDirectModel(modelEntry: ModelEntry, messages: BaseMessage[], requestId: string): Promise<any> {
+    Logger.debug('Using direct model call (no tools)', { requestId, modelId: modelEntry.id });
+    const directResponse = await modelEntry.chatModel.invoke(messages, { signal: getRequestContext()?.signal });
     Logger.logAgentThinking(requestId, 'direct_model_completed');
     return { messages: [directResponse] };
   }
   
   /**
-   * Process message using agent with tools
+   * Process message using agent with tools. onToolStart is called as soon as a tool runs, since tools
+   * can have side effects (playing music, scheduling an action) that a retry would repeat.
    */
-  private async processWithAgent(messages: BaseMessage[], requestId: string, request: AgentRequest): Promise<any> {
+  private async processWithAgent(
+    modelEntry: ModelEntry,
+    messages: BaseMessage[],
+    requestId: string,
+    request: AgentRequest,
+    onToolStart: () => void = () => {}
+  ): Promise<any> {
+    const signal = getRequestContext()?.signal;
     try {
       // Simple agent invocation without complex constraints
-      const response = await this.agent.invoke({
+      const response = await modelEntry.getAgent().invoke({
         messages: messages,
-      });
+      }, { signal, callbacks: [{ handleToolStart: onToolStart }] });
       
       Logger.logAgentThinking(requestId, 'agent_invocation_completed');
       return response;
     } catch (agentError) {
-      Logger.error('Agent invocation failed, falling back to direct model', agentError as Error, { requestId });
+      // Provider outages and rate limits are handled by failing over to another provider,
+      // and a cancelled request must not be started again on the direct model
+      if (isRetryableError(agentError) || signal?.aborted) {
+        throw agentError;
+      }
+
+      Logger.error('Agent invocation failed, falling back to direct model', agentError as Error, { requestId, modelId: modelEntry.id });
       
-      // Fallback to direct model call if agent fails
-      const directResponse = await this.model.invoke(messages);
+      // Fallback to direct model call if the agent itself fails (e.g. a malformed tool call)
+      const directResponse = await modelEntry.chatModel.invoke(messages, { signal });
       return { messages: [directResponse] };
     }
   }
@@ -533,7 +629,8 @@ export class ChatAgentService {
         message: 'I had trouble with that music request. Make sure you\'re logged into Spotify and try something like "play Bohemian Rhapsody" or "pause music".',
         personality: request.personality,
         confidence: 0.5,
-        responseTime
+        responseTime,
+        error: errorMessage
       };
     }
     
@@ -541,135 +638,254 @@ export class ChatAgentService {
       message: `I encountered an issue: ${errorMessage}. Please try rephrasing your request.`,
       personality: request.personality,
       confidence: 0.5,
-      responseTime
+      responseTime,
+      error: errorMessage
     };
   }
 
-  async *streamMessage(request: AgentRequest, sessionId?: string, requestId: string = 'unknown'): AsyncGenerator<string, void, unknown> {
+  async *streamMessage(
+    request: AgentRequest,
+    sessionId?: string,
+    requestId: string = 'unknown',
+    outcome: StreamOutcome = {}
+  ): AsyncGenerator<AgentStreamEvent, void, unknown> {
+    const signal = getRequestContext()?.signal;
     let fullResponse = '';
+    // The model that answered, after any failover
+    let answeredBy: ModelEntry | undefined;
     try {
-      // Get conversation history from simple memory
-      const conversationHistory = this.getOrCreateMemory(sessionId || '');
+      // Get conversation history and running summary from session memory
+      const memory = await this.loadConversationMemory(request, sessionId, requestId);
       
       Logger.logAgentThinking(requestId, 'streaming_started', {
         personality: request.personality,
         mood: request.mood,
         messageLength: request.message.length,
         sessionId: sessionId || 'temporary',
-        historyLength: conversationHistory.length,
+        historyLength: memory.messages.length,
+        hasSummary: !!memory.summary,
         availableTools: this.tools.map(tool => tool.name)
       });
       
-      const systemPrompt = getPersonalityPrompt(request.personality, request.mood);
-
-      const messages: BaseMessage[] = [];
-
-      // Add system message first
-      messages.push(new SystemMessage(systemPrompt));
-
-      // Add conversation history
-      if (conversationHistory.length > 0) {
-        messages.push(...this.convertToLangChainMessages(conversationHistory));
-        Logger.logAgentThinking(requestId, 'streaming_history_loaded', {
-          historyMessages: conversationHistory.length
-        });
-      }
-
-      // Add current user message
-      messages.push(new HumanMessage(request.message));
+      const messages = this.buildMessageChain(request, memory, requestId);
+      const selectedEntry = this.models.resolve(request, request.personality);
       
-      Logger.logAgentThinking(requestId, 'streaming_agent_started');
+      Logger.logAgentThinking(requestId, 'streaming_agent_started', { modelId: selectedEntry.id });
       
-      if (this.tools.length === 0) {
-        Logger.debug('Using direct model streaming (no tools)', { requestId });
-        const stream = await this.model.stream(messages);
-        
-        let totalChunks = 0;
-        let totalLength = 0;
-        
-        for await (const chunk of stream) {
-          if (chunk.content) {
-            totalChunks++;
-            totalLength += String(chunk.content).length;
-            fullResponse += String(chunk.content);
-            
-            Logger.logAgentThinking(requestId, 'streaming_chunk_generated', {
-              chunkNumber: totalChunks,
-              chunkLength: String(chunk.content).length,
-              totalLength,
-              method: 'direct_model_stream'
-            });
-            
-            yield String(chunk.content);
-          }
+      answeredBy = selectedEntry;
+      const stream = this.failover.stream(
+        selectedEntry,
+        requestId,
+        entry => this.streamFromModel(entry, messages, requestId),
+        entry => {
+          answeredBy = entry;
+          outcome.model = entry.id;
+          outcome.provider = entry.provider;
         }
-      } else {
-        const stream = await this.agent.stream({
-          messages: messages,
-        }, {
-          maxIterations: 2, // Prevents excessive tool usage loops
-          maxExecutionTime: 30000 // 30 second timeout
-        });
+      );
 
-        let totalChunks = 0;
-        let totalLength = 0;
-        
-        let lastChunkContent = '';
-        
-        for await (const chunk of stream) {
-          if (chunk.messages && chunk.messages.length > 0) {
-            // Look for the final AI response (last AIMessage without tool_calls)
-            let chunkContent = '';
-            
-            for (let i = chunk.messages.length - 1; i >= 0; i--) {
-              const msg = chunk.messages[i];
-              if (msg.constructor.name === 'AIMessage' && !msg.tool_calls && msg.content && msg.content.trim()) {
-                chunkContent = msg.content.trim();
-                break;
-              }
-            }
-            
-            // If we found new content that's different from the last chunk
-            if (chunkContent && chunkContent !== lastChunkContent) {
-              const newContent = chunkContent.slice(lastChunkContent.length);
-              if (newContent) {
-                totalChunks++;
-                totalLength += newContent.length;
-                fullResponse += newContent;
-                
-                Logger.logAgentThinking(requestId, 'streaming_chunk_generated', {
-                  chunkNumber: totalChunks,
-                  chunkLength: newContent.length,
-                  totalLength,
-                  method: 'agent_stream'
-                });
-                
-                yield newContent;
-                lastChunkContent = chunkContent;
-              }
-            }
-          }
+      for await (const event of stream) {
+        if (event.type === 'token') {
+          fullResponse += event.content;
         }
+        yield event;
+      }
+
+      if (signal?.aborted) {
+        await this.handleCancelledStream(request, sessionId, requestId, fullResponse, outcome, answeredBy);
+        return;
       }
 
       // Save the complete conversation to simple memory
-      if (fullResponse) {
-        this.saveToMemory(sessionId || '', request.message, fullResponse);
+      if (fullResponse.trim()) {
+        await this.saveToMemory(sessionId || '', request, fullResponse.trim(), answeredBy);
       }
       
       Logger.logAgentThinking(requestId, 'streaming_completed', {
         responseLength: fullResponse.length,
-        memorySaved: !!fullResponse
+        memorySaved: !!fullResponse,
+        modelId: outcome.model,
+        failedOver: outcome.model !== selectedEntry.id
       });
       
     } catch (error) {
+      if (signal?.aborted) {
+        await this.handleCancelledStream(request, sessionId, requestId, fullResponse, outcome, answeredBy);
+        return;
+      }
+
       Logger.error('Error streaming message with agent', error as Error, {
         requestId,
         personality: request.personality,
         mood: request.mood
       });
-      yield 'Sorry, I encountered an error while processing your message.';
+      yield { type: 'token', content: 'Sorry, I encountered an error while processing your message.' };
+    }
+  }
+
+  /**
+   * Apply the cancelled-turn memory policy to whatever was streamed before the abort
+   */
+  private async handleCancelledStream(
+    request: AgentRequest,
+    sessionId: string | undefined,
+    requestId: string,
+    partialResponse: string,
+    outcome: StreamOutcome,
+    modelEntry?: ModelEntry
+  ): Promise<void> {
+    outcome.cancelReason = getCancelReason(getRequestContext()?.signal);
+    const savePartial = this.cancelledTurnPolicy === 'save_partial' && !!partialResponse.trim() && !!sessionId;
+
+    if (savePartial) {
+      await this.saveToMemory(sessionId as string, request, partialResponse.trim(), modelEntry, true);
+    }
+
+    Logger.info('Streaming cancelled', {
+      requestId,
+      reason: outcome.cancelReason,
+      policy: this.cancelledTurnPolicy,
+      partialLength: partialResponse.length,
+      memorySaved: savePartial
+    });
+  }
+
+  /**
+   * Stream a response from a single model, directly or through its agent when tools are configured
+   */
+  private async *streamFromModel(modelEntry: ModelEntry, messages: BaseMessage[], requestId: string): AsyncGenerator<AgentStreamEvent, void, unknown> {
+    if (!(await this.canUseTools(modelEntry, requestId))) {
+      Logger.debug('Using direct model streaming (no tools)', { requestId, modelId: modelEntry.id });
+      const stream = await modelEntry.chatModel.stream(messages, { signal: getRequestContext()?.signal });
+      
+      let totalChunks = 0;
+      let totalLength = 0;
+      
+      for await (const chunk of stream) {
+        if (chunk.content) {
+          totalChunks++;
+          totalLength += String(chunk.content).length;
+          
+          Logger.logAgentThinking(requestId, 'streaming_chunk_generated', {
+            chunkNumber: totalChunks,
+            chunkLength: String(chunk.content).length,
+            totalLength,
+            method: 'direct_model_stream'
+          });
+          
+          yield { type: 'token', content: String(chunk.content) };
+        }
+      }
+      return;
+    }
+
+    // Event streaming gives model tokens as they are generated (tagged with the graph node they
+    // came from) as well as tool start/end, which the client shows while it waits
+    const stream = modelEntry.getAgent().streamEvents({
+      messages: messages,
+    }, {
+      version: 'v2',
+      signal: getRequestContext()?.signal
+    });
+
+    const toolStartTimes = new Map<string, number>();
+    let totalChunks = 0;
+    let totalLength = 0;
+    
+    for await (const event of stream) {
+      if (event.event === 'on_tool_start') {
+        toolStartTimes.set(event.run_id, Date.now());
+        const tool = this.resolveToolName(event.name);
+        Logger.logAgentThinking(requestId, 'tool_started', { tool });
+        yield { type: 'tool_start', tool, input: this.sanitizeToolInput(event.data.input) };
+        continue;
+      }
+
+      if (event.event === 'on_tool_end') {
+        const durationMs = Date.now() - (toolStartTimes.get(event.run_id) ?? Date.now());
+        toolStartTimes.delete(event.run_id);
+        const tool = this.resolveToolName(event.name);
+        Logger.logAgentThinking(requestId, 'tool_completed', { tool, durationMs });
+        yield { type: 'tool_end', tool, input: this.sanitizeToolInput(event.data.input), durationMs };
+        continue;
+      }
+
+      // Tool results come from the "tools" node; only the model's own tokens are spoken
+      if (event.event !== 'on_chat_model_stream' || event.metadata?.langgraph_node !== 'agent') {
+        continue;
+      }
+
+      // Tokens of a tool-call step are the call's arguments, not an answer
+      const message = event.data.chunk as AIMessageChunk;
+      if (message.tool_calls?.length || message.tool_call_chunks?.length) {
+        continue;
+      }
+
+      const token = this.getTextContent(message.content);
+      if (!token) {
+        continue;
+      }
+
+      totalChunks++;
+      totalLength += token.length;
+      
+      Logger.logAgentThinking(requestId, 'streaming_chunk_generated', {
+        chunkNumber: totalChunks,
+        chunkLength: token.length,
+        totalLength,
+        method: 'agent_stream'
+      });
+      
+      yield { type: 'token', content: token };
+    }
+  }
+
+  /**
+   * Tool runs are traced under the class name (e.g. WebSearchTool); map it back to the name the model uses
+   */
+  private resolveToolName(runName: string): string {
+    const tool = this.tools.find(t => t.name === runName || t.constructor.name === runName);
+    return tool ? tool.name : runName;
+  }
+
+  /**
+   * Tool input as shown to the client: credentials redacted and length capped
+   */
+  private sanitizeToolInput(input: unknown): string {
+    const unwrap = (value: unknown) =>
+      value && typeof value === 'object' && 'input' in value ? (value as { input: unknown }).input : value;
+
+    // Traced inputs are { input: <JSON-encoded tool call arguments> }
+    let value = unwrap(input);
+    if (typeof value === 'string' && value.startsWith('{')) {
+      try {
+        value = unwrap(JSON.parse(value));
+      } catch {
+        // Not JSON after all, show it as-is
+      }
+    }
+
+    const text = typeof value === 'string' ? value : JSON.stringify(value ?? '');
+
+    const redacted = text
+      .replace(/Bearer\s+[\w.~+/-]+=*/gi, 'Bearer [redacted]')
+      .replace(/((?:api[_-]?key|token|secret|password|authorization)["']?\s*[:=]\s*["']?)[^"'\s,&}]+/gi, '$1[redacted]');
+
+    return redacted.length > ChatAgentService.MAX_TOOL_INPUT_LENGTH
+      ? `${redacted.slice(0, ChatAgentService.MAX_TOOL_INPUT_LENGTH)}…`
+      : redacted;
+  }
+
+  /**
+   * Message content is a string for most providers but a list of parts for some
+   */
+  private getTextContent(content: MessageContent): string {
+    if (typeof content === 'string') {
+      return content;
     }
+    return content
+      .map(part => (part.type === 'text' && 'text' in part ? String(part.text) : ''))
+      .join('');
   }
 
   private generateSuggestions(personality: PersonalityMode, message: string): string[] {
@@ -695,24 +911,49 @@ export class ChatAgentService {
   }
 
   // Memory management methods
-  clearSession(sessionId: string): boolean {
-    return this.sessionMemories.delete(`session_${sessionId}`);
+  async clearSession(sessionId: string): Promise<boolean> {
+    return this.sessionService.deleteSession(sessionId);
   }
 
-  getSessionCount(): number {
-    return this.sessionMemories.size;
+  async getSessionCount(): Promise<number> {
+    return (await this.sessionService.getStats()).totalSessions;
   }
 
-  clearAllSessions(): void {
-    this.sessionMemories.clear();
+  getSessionService(): SessionService {
+    return this.sessionService;
+  }
+
+  async clearAllSessions(): Promise<void> {
+    const sessionIds = await this.sessionStore.list();
+    await Promise.all(sessionIds.map(sessionId => this.sessionStore.delete(sessionId)));
+  }
+
+  getSessionStoreKind(): string {
+    return this.sessionStore.kind;
+  }
+
+  getDelayedActionStore(): DelayedActionStore {
+    return this.delayedActionStore;
+  }
+
+  getModelRegistry(): ModelRegistry {
+    return this.models;
+  }
+
+  getModelFailover(): ModelFailover {
+    return this.failover;
+  }
+
+  getMemoryMode(): MemoryMode {
+    return this.memoryMode;
   }
 
   // Get memory buffer for a session (for debugging/stats)
   async getSessionSummary(sessionId: string): Promise<string | null> {
-    const messages = this.sessionMemories.get(`session_${sessionId}`);
-    if (!messages || messages.length === 0) return null;
-    
     try {
+      const messages = await this.sessionStore.get(sessionId);
+      if (messages.length === 0) return null;
+
       return messages.map(msg => `${msg.role}: ${msg.content}`).join('\n');
     } catch (error) {
       Logger.error('Error loading session summary', error as Error, { sessionId });
@@ -720,4 +961,22 @@ export class ChatAgentService {
     }
   }
 
-}
+  // Get the rolling LLM summary of evicted turns plus buffer usage for a session
+  async getSessionMemoryInfo(sessionId: string): Promise<{
+    conversationSummary: string | null;
+    bufferedMessages: number;
+    bufferedTokens: number;
+    maxTokens: number;
+    mode: MemoryMode;
+  }> {
+    const memory = await this.getOrCreateMemory(sessionId);
+    return {
+      conversationSummary: memory.summary,
+      bufferedMessages: memory.messages.length,
+      bufferedTokens: estimateMessagesTokens(memory.messages),
+      maxTokens: this.memoryMaxTokens,
+      mode: this.memoryMode
+    };
+  }
+
+}
\ No newline at end of file
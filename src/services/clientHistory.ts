@@ -0,0 +1,93 @@
+import { ConversationMessage } from '../types';
+
+/**
+ * How client-supplied conversationHistory is combined with server memory:
+ * - stateless: no sessionId, the client history is the whole context and nothing is persisted
+ * - seed: the session has no stored messages yet, so the client history is imported into it
+ * - server: the session already has history, which stays authoritative; client history is ignored
+ */
+export type HistoryMode = 'stateless' | 'seed' | 'server';
+
+export const MAX_CLIENT_HISTORY_LENGTH = 100;
+
+// Allow for clock drift between the client and this server
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export function resolveHistoryMode(sessionId: string | undefined, storedMessageCount: number): HistoryMode {
+  if (!sessionId) {
+    return 'stateless';
+  }
+  return storedMessageCount === 0 ? 'seed' : 'server';
+}
+
+/**
+ * Validate conversationHistory from an untrusted request body. Returns an error message or null.
+ */
+export function validateClientHistory(history: unknown): string | null {
+  if (history === undefined || history === null) {
+    return null;
+  }
+
+  if (!Array.isArray(history)) {
+    return 'conversationHistory must be an array';
+  }
+
+  if (history.length > MAX_CLIENT_HISTORY_LENGTH) {
+    return `conversationHistory cannot contain more than ${MAX_CLIENT_HISTORY_LENGTH} messages`;
+  }
+
+  let previousTime = -Infinity;
+  for (let i = 0; i < history.length; i++) {
+    const entry = history[i];
+    if (!entry || typeof entry !== 'object') {
+      return `conversationHistory[${i}] must be an object`;
+    }
+
+    const { role, content, timestamp } = entry as Record<string, unknown>;
+    if (role !== 'user' && role !== 'assistant') {
+      return `conversationHistory[${i}].role must be "user" or "assistant"`;
+    }
+
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      return `conversationHistory[${i}].content must be a non-empty string`;
+    }
+
+    if (timestamp === undefined) {
+      continue;
+    }
+
+    const time = typeof timestamp === 'string' || typeof timestamp === 'number'
+      ? new Date(timestamp).getTime()
+      : NaN;
+    if (Number.isNaN(time)) {
+      return `conversationHistory[${i}].timestamp is not a valid date`;
+    }
+
+    if (time > Date.now() + MAX_CLOCK_SKEW_MS) {
+      return `conversationHistory[${i}].timestamp is in the future`;
+    }
+
+    if (time < previousTime) {
+      return 'conversationHistory must be in chronological order';
+    }
+    previousTime = time;
+  }
+
+  return null;
+}
+
+/**
+ * Convert validated client history into ConversationMessage objects with real Date timestamps
+ */
+export function normalizeClientHistory(history: unknown): ConversationMessage[] {
+  if (!Array.isArray(history)) {
+    return [];
+  }
+
+  const now = new Date();
+  return history.map(entry => ({
+    role: entry.role,
+    content: String(entry.content),
+    timestamp: entry.timestamp === undefined ? now : new Date(entry.timestamp)
+  }));
+}
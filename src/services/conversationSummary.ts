@@ -0,0 +1,86 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { ConversationMessage } from '../types';
+import { stripGestureTags } from './transcriptExport';
+
+export type MemoryMode = 'buffer' | 'summary_buffer';
+
+const SUMMARY_PROMPT = `You maintain the long-term memory of a chat between a user and an AI avatar.
+You will be given the current summary (possibly empty) and a batch of older conversation turns that are about to be forgotten.
+Write an updated summary that keeps every fact, preference, name, plan and open question the user shared, plus anything the assistant promised.
+Write in plain third-person prose, no markdown, no gesture or mood tags, at most 200 words.`;
+
+/**
+ * Rough token estimate (about four characters per token for English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateMessagesTokens(messages: ConversationMessage[]): number {
+  return messages.reduce((total, message) => total + estimateTokens(message.content) + 4, 0);
+}
+
+/**
+ * Resolve the memory mode from MEMORY_MODE (buffer | summary_buffer)
+ */
+export function getMemoryMode(): MemoryMode {
+  const mode = (process.env.MEMORY_MODE || 'summary_buffer').trim().toLowerCase();
+  if (mode === 'buffer' || mode === 'summary_buffer') {
+    return mode;
+  }
+  throw new Error(`Unsupported MEMORY_MODE "${process.env.MEMORY_MODE}". Use one of: buffer, summary_buffer.`);
+}
+
+/**
+ * Split history into the oldest messages to evict and the newest messages that fit the token budget.
+ * The most recent turn is always kept so the model never loses the immediate context.
+ */
+export function selectMessagesToEvict(
+  messages: ConversationMessage[],
+  maxTokens: number,
+  minKeep: number = 2
+): { evicted: ConversationMessage[]; kept: ConversationMessage[] } {
+  let keepFrom = messages.length;
+  let tokens = 0;
+
+  while (keepFrom > 0) {
+    const candidate = estimateTokens(messages[keepFrom - 1].content) + 4;
+    const mustKeep = messages.length - keepFrom < minKeep;
+    if (!mustKeep && tokens + candidate > maxTokens) {
+      break;
+    }
+    tokens += candidate;
+    keepFrom--;
+  }
+
+  return {
+    evicted: messages.slice(0, keepFrom),
+    kept: messages.slice(keepFrom)
+  };
+}
+
+/**
+ * Fold evicted conversation turns into the running summary using the configured chat model
+ */
+export async function summarizeConversation(
+  model: BaseChatModel,
+  previousSummary: string | null,
+  evicted: ConversationMessage[]
+): Promise<string> {
+  const transcript = evicted
+    // Gesture and mood tags are noise for the summarizer and waste tokens
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${stripGestureTags(message.content)}`)
+    .join('\n');
+
+  const response = await model.invoke([
+    new SystemMessage(SUMMARY_PROMPT),
+    new HumanMessage(`Current summary:\n${previousSummary || '(none)'}\n\nTurns to fold in:\n${transcript}`)
+  ]);
+
+  const content = typeof response.content === 'string'
+    ? response.content
+    : response.content.map(part => ('text' in part ? part.text : '')).join('');
+
+  return content.trim();
+}
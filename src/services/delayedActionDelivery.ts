@@ -0,0 +1,94 @@
+import { DelayedAction, GestureCue, StreamChunk } from '../types';
+import { DelayedActionStore } from './delayedActionStore';
+import { sessionEvents } from './sessionEvents';
+import { StreamAnnotator, toStreamChunk } from './streamAnnotator';
+import { Logger } from '../utils/logger';
+
+export const delayedRequestId = (action: DelayedAction): string => `delayed-${action.id}`;
+
+/**
+ * A finished action as the StreamChunks of a normal streamed reply: start (with what was
+ * scheduled), the reply with its mood, gesture and sentence annotations, then end. A failed action
+ * is a start followed by an error.
+ */
+export function toStreamChunks(action: DelayedAction): StreamChunk[] {
+  const start: StreamChunk = {
+    type: 'start',
+    scheduled: {
+      actionId: action.id,
+      request: action.message,
+      scheduledFor: new Date(action.executeAt).toISOString()
+    },
+    metadata: { personality: action.personality, requestId: delayedRequestId(action) }
+  };
+
+  if (action.status !== 'completed') {
+    return [start, { type: 'error', content: `Sorry, I couldn't carry out your scheduled request: "${action.message}"` }];
+  }
+
+  const reply = action.result || '';
+  const annotator = new StreamAnnotator();
+  const annotations = [...annotator.push(reply), ...annotator.flush()];
+  const gestures: GestureCue[] = annotations.flatMap(annotation =>
+    annotation.type === 'gesture' ? [{ tag: annotation.tag, charOffset: annotation.charOffset }] : []
+  );
+
+  return [
+    start,
+    { type: 'chunk', content: reply },
+    ...annotations.map(toStreamChunk),
+    {
+      type: 'end',
+      spokenText: annotator.getSpokenText(),
+      mood: annotator.getMood() ?? undefined,
+      gestures,
+      metadata: { personality: action.personality }
+    }
+  ];
+}
+
+/**
+ * Pushes the outcome of finished delayed actions to their session (see SessionEvents). When nobody
+ * is listening the outcome stays queued in the store until the client connects and
+ * deliverQueued runs; each outcome is marked delivered so it is pushed exactly once.
+ */
+export class DelayedActionDelivery {
+  private store: DelayedActionStore;
+
+  constructor(store: DelayedActionStore) {
+    this.store = store;
+  }
+
+  /**
+   * Push a finished action if its session has a listener. Returns whether it was delivered.
+   */
+  async deliver(action: DelayedAction): Promise<boolean> {
+    if (!sessionEvents.hasListeners(action.sessionId)) {
+      Logger.info('Queued delayed action outcome until the session connects', { actionId: action.id, sessionId: action.sessionId });
+      return false;
+    }
+
+    // Claimed before sending, so a reconnect that flushes the queue at the same time can't repeat it
+    if (!await this.store.markDelivered(action.id, Date.now())) {
+      return false;
+    }
+
+    const requestId = delayedRequestId(action);
+    toStreamChunks(action).forEach(chunk => sessionEvents.publish(action.sessionId, chunk, requestId));
+    Logger.info('Delivered delayed action outcome', { actionId: action.id, sessionId: action.sessionId, status: action.status });
+    return true;
+  }
+
+  /**
+   * Push everything that finished while the session had no listener, oldest first. Returns how many.
+   */
+  async deliverQueued(sessionId: string): Promise<number> {
+    let delivered = 0;
+    for (const action of await this.store.listUndelivered(sessionId)) {
+      if (await this.deliver(action)) {
+        delivered++;
+      }
+    }
+    return delivered;
+  }
+}
@@ -1,174 +1,261 @@
-// import { DelayedActionTool, DelayedAction } from '../tools/delayedActionTool';
-// import { ChatAgentService } from './chatAgent';
-// import { Logger } from '../utils/logger';
-
-// export interface DelayedActionCallback {
-//   (sessionId: string, message: string): Promise<void>;
-// }
-
-// export class DelayedActionProcessor {
-//   private delayedActionTool: DelayedActionTool;
-//   private isRunning: boolean = false;
-//   private intervalId?: NodeJS.Timeout;
-//   private callback?: DelayedActionCallback;
-  
-//   private static readonly POLL_INTERVAL = 5000; // Check every 5 seconds
-//   private static readonly CLEANUP_INTERVAL = 300000; // Cleanup every 5 minutes
-
-//   constructor() {
-//     this.delayedActionTool = new DelayedActionTool();
-//   }
-
-//   /**
-//    * Set callback function to handle delayed action execution
-//    */
-//   setCallback(callback: DelayedActionCallback): void {
-//     this.callback = callback;
-//   }
-
-//   /**
-//    * Start the background processor
-//    */
-//   start(): void {
-//     if (this.isRunning) {
-//       Logger.warn('DelayedActionProcessor already running');
-//       return;
-//     }
-
-//     this.isRunning = true;
-//     Logger.info('Starting DelayedActionProcessor');
-
-//     // Main processing interval
-//     this.intervalId = setInterval(async () => {
-//       await this.processDelayedActions();
-//     }, DelayedActionProcessor.POLL_INTERVAL);
-
-//     // Cleanup interval
-//     setInterval(async () => {
-//       await this.cleanup();
-//     }, DelayedActionProcessor.CLEANUP_INTERVAL);
-
-//     // Initial process
-//     this.processDelayedActions().catch(error => {
-//       Logger.error('Error in initial delayed action processing', error);
-//     });
-//   }
-
-//   /**
-//    * Stop the background processor
-//    */
-//   stop(): void {
-//     if (!this.isRunning) return;
-
-//     this.isRunning = false;
-    
-//     if (this.intervalId) {
-//       clearInterval(this.intervalId);
-//       this.intervalId = undefined;
-//     }
-
-//     Logger.info('DelayedActionProcessor stopped');
-//   }
-
-//   /**
-//    * Process all pending delayed actions
-//    */
-//   private async processDelayedActions(): Promise<void> {
-//     try {
-//       const pendingActions = await this.delayedActionTool.getPendingActions();
-      
-//       if (pendingActions.length === 0) {
-//         return;
-//       }
-
-//       Logger.debug(`Processing ${pendingActions.length} pending delayed actions`);
-
-//       for (const action of pendingActions) {
-//         await this.executeAction(action);
-//       }
-//     } catch (error) {
-//       Logger.error('Error processing delayed actions', error as Error);
-//     }
-//   }
-
-//   /**
-//    * Execute a single delayed action
-//    */
-//   private async executeAction(action: DelayedAction): Promise<void> {
-//     try {
-//       const now = Date.now();
-      
-//       // Skip if not yet time to execute
-//       if (action.executeAt > now) {
-//         return;
-//       }
-
-//       Logger.info('Executing delayed action', { 
-//         actionId: action.id,
-//         sessionId: action.sessionId,
-//         message: action.message,
-//         scheduledFor: new Date(action.executeAt).toISOString()
-//       });
-
-//       // Execute the callback if available
-//       if (this.callback) {
-//         await this.callback(
-//           action.sessionId,
-//           action.message
-//         );
-//       } else {
-//         Logger.warn('No callback set for delayed action execution', { actionId: action.id });
-//       }
-
-//       // Mark action as completed
-//       await this.delayedActionTool.completeAction(action.id);
-
-//       Logger.info('Delayed action executed successfully', { 
-//         actionId: action.id,
-//         sessionId: action.sessionId
-//       });
-
-//     } catch (error) {
-//       Logger.error('Error executing delayed action', error as Error, { 
-//         actionId: action.id,
-//         sessionId: action.sessionId,
-//         message: action.message
-//       });
-      
-//       // Still mark as completed to avoid infinite retry
-//       await this.delayedActionTool.completeAction(action.id);
-//     }
-//   }
-
-//   /**
-//    * Cleanup expired actions
-//    */
-//   private async cleanup(): Promise<void> {
-//     try {
-//       const cleanedCount = await this.delayedActionTool.cleanup();
-//       if (cleanedCount > 0) {
-//         Logger.info(`Cleaned up ${cleanedCount} expired delayed actions`);
-//       }
-//     } catch (error) {
-//       Logger.error('Error during delayed action cleanup', error as Error);
-//     }
-//   }
-
-//   /**
-//    * Get processor status
-//    */
-//   getStatus(): { isRunning: boolean; pollInterval: number } {
-//     return {
-//       isRunning: this.isRunning,
-//       pollInterval: DelayedActionProcessor.POLL_INTERVAL
-//     };
-//   }
-
-//   /**
-//    * Manual trigger for testing
-//    */
-//   async triggerManualProcess(): Promise<void> {
-//     Logger.info('Manual delayed action processing triggered');
-//     await this.processDelayedActions();
-//   }
-// }
\ No newline at end of file
+import { randomUUID } from 'crypto';
+import { DelayedAction } from '../types';
+import { ChatAgentService } from './chatAgent';
+import { DelayedActionStore } from './delayedActionStore';
+import { DelayedActionDelivery, delayedRequestId } from './delayedActionDelivery';
+import { nextOccurrence } from './schedule';
+import { runWithRequestContext } from '../utils/requestContext';
+import { getDefaultTimeZone } from '../utils/timeZones';
+import { Logger } from '../utils/logger';
+
+export interface DelayedActionProcessorStatus {
+  isRunning: boolean;
+  isProcessing: boolean;
+  pollInterval: number;
+  store: string;
+}
+
+/**
+ * Carries out delayed actions once they are due: each one is replayed as a chat turn in the session
+ * that scheduled it, straight through ChatAgentService, and its outcome is pushed to the session by
+ * DelayedActionDelivery. Actions are claimed through the store before they run, so an action is
+ * only carried out once even when several processors share a store. A recurring action schedules its
+ * next occurrence, as a new pending action, when it is claimed.
+ */
+export class DelayedActionProcessor {
+  private store: DelayedActionStore;
+  private delivery: DelayedActionDelivery;
+  private chatAgent: ChatAgentService;
+  private pollInterval: number;
+  private pollTimer?: NodeJS.Timeout;
+  private cleanupTimer?: NodeJS.Timeout;
+  // The pass in progress, shared by the poll timer and manual triggers
+  private processing?: Promise<number>;
+  // Failing the turns an earlier process left running; passes wait for it
+  private recovery?: Promise<void>;
+  // Anything claimed before this was claimed by an earlier process
+  private readonly createdAt = Date.now();
+
+  private static readonly DEFAULT_POLL_INTERVAL = 5000;
+  private static readonly CLEANUP_INTERVAL = 5 * 60 * 1000;
+  // Finished actions are kept this long after they finish so clients can still see how they went; an
+  // outcome nobody was connected for stays queued for delivery until then
+  private static readonly RETENTION = 24 * 60 * 60 * 1000;
+  private static readonly BATCH_SIZE = 20;
+
+  constructor(
+    chatAgent: ChatAgentService,
+    store: DelayedActionStore = chatAgent.getDelayedActionStore(),
+    delivery: DelayedActionDelivery = new DelayedActionDelivery(store)
+  ) {
+    this.chatAgent = chatAgent;
+    this.store = store;
+    this.delivery = delivery;
+    this.pollInterval = parseInt(process.env.DELAYED_ACTION_POLL_MS || '', 10) || DelayedActionProcessor.DEFAULT_POLL_INTERVAL;
+  }
+
+  /**
+   * Start polling for due actions. Overdue actions (e.g. from before a restart) run straight away,
+   * and actions a stopped process left running are failed.
+   */
+  start(): void {
+    if (this.pollTimer) {
+      Logger.warn('DelayedActionProcessor already running');
+      return;
+    }
+
+    Logger.info('Starting DelayedActionProcessor', { pollInterval: this.pollInterval, store: this.store.kind });
+
+    this.pollTimer = setInterval(() => void this.processDueActions(), this.pollInterval);
+    this.pollTimer.unref();
+    this.cleanupTimer = setInterval(() => void this.cleanup(), DelayedActionProcessor.CLEANUP_INTERVAL);
+    this.cleanupTimer.unref();
+
+    this.recovery = this.failInterruptedActions();
+    void this.processDueActions();
+  }
+
+  stop(): void {
+    if (!this.pollTimer) return;
+
+    clearInterval(this.pollTimer);
+    clearInterval(this.cleanupTimer);
+    this.pollTimer = undefined;
+    this.cleanupTimer = undefined;
+
+    Logger.info('DelayedActionProcessor stopped');
+  }
+
+  getStatus(): DelayedActionProcessorStatus {
+    return {
+      isRunning: !!this.pollTimer,
+      isProcessing: !!this.processing,
+      pollInterval: this.pollInterval,
+      store: this.store.kind
+    };
+  }
+
+  /**
+   * Process due actions now rather than at the next poll. Returns how many were carried out.
+   */
+  async triggerManualProcess(): Promise<number> {
+    Logger.info('Manual delayed action processing triggered');
+    return this.processDueActions();
+  }
+
+  /**
+   * Run every due action, one at a time. A pass already in progress is joined rather than repeated.
+   */
+  private processDueActions(): Promise<number> {
+    if (!this.processing) {
+      this.processing = this.runDueActions().finally(() => {
+        this.processing = undefined;
+      });
+    }
+    return this.processing;
+  }
+
+  private async runDueActions(): Promise<number> {
+    let processed = 0;
+
+    try {
+      await this.recovery;
+      let due = await this.store.listDue(Date.now(), DelayedActionProcessor.BATCH_SIZE);
+      while (due.length > 0) {
+        for (const action of due) {
+          if (await this.store.transition(action.id, 'pending', 'running', { startedAt: Date.now() })) {
+            if (action.recurrence) {
+              await this.scheduleNext(action);
+            }
+            await this.executeAction(action);
+            processed++;
+          }
+        }
+        due = await this.store.listDue(Date.now(), DelayedActionProcessor.BATCH_SIZE);
+      }
+    } catch (error) {
+      Logger.error('Error processing delayed actions', error as Error);
+    }
+
+    return processed;
+  }
+
+  private async executeAction(action: DelayedAction): Promise<void> {
+    const requestId = delayedRequestId(action);
+
+    Logger.info('Executing delayed action', {
+      requestId,
+      actionId: action.id,
+      sessionId: action.sessionId,
+      scheduledFor: new Date(action.executeAt).toISOString()
+    });
+
+    let finished: DelayedAction;
+    let recorded: boolean;
+    try {
+      const response = await runWithRequestContext({
+        requestId,
+        sessionId: action.sessionId,
+        userId: action.userId,
+        personality: action.personality,
+        mood: action.mood,
+        timeZone: action.timeZone,
+        delayedActionId: action.id
+      }, () => this.chatAgent.processMessage({
+        message: action.message,
+        personality: action.personality,
+        mood: action.mood,
+        userId: action.userId
+      }, action.sessionId, requestId));
+
+      // processMessage answers failures with an apology rather than throwing
+      if (response.error !== undefined || response.cancelled) {
+        throw new Error(response.error ?? 'Delayed action was cancelled');
+      }
+
+      const outcome = { result: response.message, completedAt: Date.now() };
+      recorded = await this.store.transition(action.id, 'running', 'completed', outcome);
+      finished = { ...action, ...outcome, status: 'completed' };
+      Logger.info('Delayed action executed successfully', { requestId, actionId: action.id });
+    } catch (error) {
+      Logger.error('Error executing delayed action', error as Error, { requestId, actionId: action.id });
+      // Not retried: a request that failed once, e.g. on a bad tool call, would most likely fail again
+      const outcome = { error: (error as Error).message, completedAt: Date.now() };
+      recorded = await this.store.transition(action.id, 'running', 'failed', outcome);
+      finished = { ...action, ...outcome, status: 'failed' };
+    }
+
+    if (!recorded) {
+      // Its series was cancelled while it ran, so the user no longer wants the reply
+      Logger.info('Dropping reply of delayed action cancelled while running', { requestId, actionId: action.id });
+      return;
+    }
+    await this.delivery.deliver(finished);
+  }
+
+  /**
+   * Add the occurrence after this one. It is the first one still to come, so a series that fell
+   * behind (e.g. while the server was down) runs once and moves on.
+   */
+  private async scheduleNext(action: DelayedAction): Promise<void> {
+    try {
+      const next: DelayedAction = {
+        id: randomUUID(),
+        sessionId: action.sessionId,
+        ...(action.userId ? { userId: action.userId } : {}),
+        personality: action.personality,
+        mood: action.mood,
+        message: action.message,
+        executeAt: nextOccurrence(action.recurrence as string, Date.now(), action.timeZone || getDefaultTimeZone(), action.executeAt),
+        createdAt: Date.now(),
+        recurrence: action.recurrence,
+        seriesId: action.seriesId ?? action.id,
+        ...(action.timeZone ? { timeZone: action.timeZone } : {}),
+        status: 'pending'
+      };
+      await this.store.add(next);
+      // The series was cancelled while this occurrence was being claimed, so its cancel missed `next`
+      if ((await this.store.get(action.id))?.status === 'cancelled') {
+        await this.store.transition(next.id, 'pending', 'cancelled', { completedAt: Date.now() });
+        return;
+      }
+      Logger.info('Scheduled next occurrence of delayed action', {
+        actionId: action.id,
+        nextActionId: next.id,
+        executeAt: new Date(next.executeAt).toISOString()
+      });
+    } catch (error) {
+      // The series ends here, but this occurrence still runs
+      Logger.error('Error scheduling next occurrence of delayed action', error as Error, { actionId: action.id });
+    }
+  }
+
+  /**
+   * A turn cut off by a crash or restart is failed rather than run again, since its tools may already
+   * have had their effect. The failure is delivered like any other outcome.
+   */
+  private async failInterruptedActions(): Promise<void> {
+    try {
+      for (const action of await this.store.listRunningSince(this.createdAt)) {
+        const outcome = { error: 'Interrupted by a server restart', completedAt: Date.now() };
+        if (await this.store.transition(action.id, 'running', 'failed', outcome)) {
+          Logger.warn('Failed delayed action left running by an earlier process', { actionId: action.id });
+          await this.delivery.deliver({ ...action, ...outcome, status: 'failed' });
+        }
+      }
+    } catch (error) {
+      Logger.error('Error recovering interrupted delayed actions', error as Error);
+    }
+  }
+
+  private async cleanup(): Promise<void> {
+    try {
+      const deleted = await this.store.deleteFinishedBefore(Date.now() - DelayedActionProcessor.RETENTION);
+      if (deleted > 0) {
+        Logger.info(`Cleaned up ${deleted} finished delayed actions`);
+      }
+    } catch (error) {
+      Logger.error('Error during delayed action cleanup', error as Error);
+    }
+  }
+}
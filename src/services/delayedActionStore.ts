@@ -0,0 +1,464 @@
+import { mkdirSync } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import Redis from 'ioredis';
+import { DelayedAction, DelayedActionStatus } from '../types';
+import { Logger } from '../utils/logger';
+
+/**
+ * Persistence contract for delayed actions. `transition` is the only way to change an action's
+ * status, so two processors (or a processor and a cancel request) can't both act on one action.
+ */
+export interface DelayedActionStore {
+  readonly kind: DelayedActionStoreKind;
+  add(action: DelayedAction): Promise<void>;
+  get(id: string): Promise<DelayedAction | null>;
+  // Pending actions whose time has come, oldest first
+  listDue(now: number, limit: number): Promise<DelayedAction[]>;
+  listBySession(sessionId: string): Promise<DelayedAction[]>;
+  // Move an action from one status to another, recording the outcome. False if it wasn't in `from`.
+  transition(id: string, from: DelayedActionStatus, to: DelayedActionStatus, outcome?: Pick<DelayedAction, 'result' | 'error' | 'startedAt' | 'completedAt'>): Promise<boolean>;
+  // Running actions claimed before the cutoff, e.g. by a process that stopped mid-turn
+  listRunningSince(cutoff: number): Promise<DelayedAction[]>;
+  // Finished (completed or failed) actions whose outcome hasn't been pushed yet, oldest first
+  listUndelivered(sessionId: string): Promise<DelayedAction[]>;
+  // Record that a finished action's outcome was pushed. False if it already was, so only one caller delivers it.
+  markDelivered(id: string, deliveredAt: number): Promise<boolean>;
+  // Remove completed, failed and cancelled actions that finished before the cutoff. Returns how many.
+  deleteFinishedBefore(cutoff: number): Promise<number>;
+}
+
+export type DelayedActionStoreKind = 'memory' | 'sqlite' | 'redis';
+
+type ActionOutcome = Pick<DelayedAction, 'result' | 'error' | 'startedAt' | 'completedAt'>;
+
+const isFinished = (status: DelayedActionStatus): boolean => status !== 'pending' && status !== 'running';
+
+const isUndelivered = (action: DelayedAction): boolean =>
+  (action.status === 'completed' || action.status === 'failed') && action.deliveredAt === undefined;
+
+// Actions from before completedAt was recorded on cancel fall back to their creation time
+const finishedAt = (action: DelayedAction): number => action.completedAt ?? action.createdAt;
+
+// Actions claimed before startedAt was recorded count as claimed long ago
+const isRunningSince = (action: DelayedAction, cutoff: number): boolean =>
+  action.status === 'running' && (action.startedAt ?? 0) < cutoff;
+
+const byCompletion = (a: DelayedAction, b: DelayedAction): number => (a.completedAt ?? 0) - (b.completedAt ?? 0);
+
+export class InMemoryDelayedActionStore implements DelayedActionStore {
+  readonly kind = 'memory' as const;
+  private actions: Map<string, DelayedAction> = new Map();
+
+  async add(action: DelayedAction): Promise<void> {
+    this.actions.set(action.id, { ...action });
+  }
+
+  async get(id: string): Promise<DelayedAction | null> {
+    const action = this.actions.get(id);
+    return action ? { ...action } : null;
+  }
+
+  async listDue(now: number, limit: number): Promise<DelayedAction[]> {
+    return Array.from(this.actions.values())
+      .filter(action => action.status === 'pending' && action.executeAt <= now)
+      .sort((a, b) => a.executeAt - b.executeAt)
+      .slice(0, limit)
+      .map(action => ({ ...action }));
+  }
+
+  async listBySession(sessionId: string): Promise<DelayedAction[]> {
+    return Array.from(this.actions.values())
+      .filter(action => action.sessionId === sessionId)
+      .sort((a, b) => a.executeAt - b.executeAt)
+      .map(action => ({ ...action }));
+  }
+
+  async transition(id: string, from: DelayedActionStatus, to: DelayedActionStatus, outcome: ActionOutcome = {}): Promise<boolean> {
+    const action = this.actions.get(id);
+    if (!action || action.status !== from) {
+      return false;
+    }
+    Object.assign(action, outcome, { status: to });
+    return true;
+  }
+
+  async listRunningSince(cutoff: number): Promise<DelayedAction[]> {
+    return Array.from(this.actions.values())
+      .filter(action => isRunningSince(action, cutoff))
+      .map(action => ({ ...action }));
+  }
+
+  async listUndelivered(sessionId: string): Promise<DelayedAction[]> {
+    return Array.from(this.actions.values())
+      .filter(action => action.sessionId === sessionId && isUndelivered(action))
+      .sort(byCompletion)
+      .map(action => ({ ...action }));
+  }
+
+  async markDelivered(id: string, deliveredAt: number): Promise<boolean> {
+    const action = this.actions.get(id);
+    if (!action || !isUndelivered(action)) {
+      return false;
+    }
+    action.deliveredAt = deliveredAt;
+    return true;
+  }
+
+  async deleteFinishedBefore(cutoff: number): Promise<number> {
+    let deleted = 0;
+    for (const [id, action] of this.actions) {
+      if (isFinished(action.status) && finishedAt(action) < cutoff) {
+        this.actions.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
+
+interface DelayedActionRow {
+  id: string;
+  sessionId: string;
+  userId: string | null;
+  personality: DelayedAction['personality'];
+  mood: number;
+  message: string;
+  executeAt: number;
+  createdAt: number;
+  recurrence: string | null;
+  seriesId: string | null;
+  timeZone: string | null;
+  status: DelayedActionStatus;
+  startedAt: number | null;
+  completedAt: number | null;
+  result: string | null;
+  error: string | null;
+  deliveredAt: number | null;
+}
+
+const fromRow = (row: DelayedActionRow): DelayedAction => ({
+  id: row.id,
+  sessionId: row.sessionId,
+  ...(row.userId !== null ? { userId: row.userId } : {}),
+  personality: row.personality,
+  mood: row.mood,
+  message: row.message,
+  executeAt: row.executeAt,
+  createdAt: row.createdAt,
+  ...(row.recurrence !== null ? { recurrence: row.recurrence } : {}),
+  ...(row.seriesId !== null ? { seriesId: row.seriesId } : {}),
+  ...(row.timeZone !== null ? { timeZone: row.timeZone } : {}),
+  status: row.status,
+  ...(row.startedAt !== null ? { startedAt: row.startedAt } : {}),
+  ...(row.completedAt !== null ? { completedAt: row.completedAt } : {}),
+  ...(row.result !== null ? { result: row.result } : {}),
+  ...(row.error !== null ? { error: row.error } : {}),
+  ...(row.deliveredAt !== null ? { deliveredAt: row.deliveredAt } : {})
+});
+
+/**
+ * Single-file SQLite store, the default: actions survive restarts and overdue ones run on startup
+ */
+export class SqliteDelayedActionStore implements DelayedActionStore {
+  readonly kind = 'sqlite' as const;
+  private db: Database.Database;
+
+  private static readonly SELECT_ACTION = `
+    SELECT id, session_id AS sessionId, user_id AS userId, personality, mood, message,
+      execute_at AS executeAt, created_at AS createdAt, recurrence, series_id AS seriesId, time_zone AS timeZone, status,
+      started_at AS startedAt, completed_at AS completedAt, result, error, delivered_at AS deliveredAt
+    FROM delayed_actions`;
+
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS delayed_actions (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        user_id TEXT,
+        personality TEXT NOT NULL,
+        mood INTEGER NOT NULL,
+        message TEXT NOT NULL,
+        execute_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        completed_at INTEGER,
+        result TEXT,
+        error TEXT,
+        delivered_at INTEGER,
+        recurrence TEXT,
+        time_zone TEXT,
+        series_id TEXT,
+        started_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_delayed_actions_due ON delayed_actions (status, execute_at);
+      CREATE INDEX IF NOT EXISTS idx_delayed_actions_session ON delayed_actions (session_id, execute_at);
+    `);
+    this.addColumnIfMissing('delayed_actions', 'delivered_at', 'INTEGER');
+    this.addColumnIfMissing('delayed_actions', 'recurrence', 'TEXT');
+    this.addColumnIfMissing('delayed_actions', 'time_zone', 'TEXT');
+    this.addColumnIfMissing('delayed_actions', 'series_id', 'TEXT');
+    this.addColumnIfMissing('delayed_actions', 'started_at', 'INTEGER');
+  }
+
+  /**
+   * Databases created before a column existed don't get it from CREATE TABLE IF NOT EXISTS
+   */
+  private addColumnIfMissing(table: string, column: string, definition: string): void {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (!columns.some(existing => existing.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
+  async add(action: DelayedAction): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO delayed_actions (
+        id, session_id, user_id, personality, mood, message, execute_at, created_at, recurrence, series_id, time_zone, status
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      action.id, action.sessionId, action.userId ?? null, action.personality, action.mood, action.message,
+      action.executeAt, action.createdAt, action.recurrence ?? null, action.seriesId ?? null, action.timeZone ?? null, action.status
+    );
+  }
+
+  async get(id: string): Promise<DelayedAction | null> {
+    const row = this.db.prepare(`${SqliteDelayedActionStore.SELECT_ACTION} WHERE id = ?`).get(id) as DelayedActionRow | undefined;
+    return row ? fromRow(row) : null;
+  }
+
+  async listDue(now: number, limit: number): Promise<DelayedAction[]> {
+    const rows = this.db
+      .prepare(`${SqliteDelayedActionStore.SELECT_ACTION} WHERE status = 'pending' AND execute_at <= ? ORDER BY execute_at ASC LIMIT ?`)
+      .all(now, limit) as DelayedActionRow[];
+    return rows.map(fromRow);
+  }
+
+  async listBySession(sessionId: string): Promise<DelayedAction[]> {
+    const rows = this.db
+      .prepare(`${SqliteDelayedActionStore.SELECT_ACTION} WHERE session_id = ? ORDER BY execute_at ASC`)
+      .all(sessionId) as DelayedActionRow[];
+    return rows.map(fromRow);
+  }
+
+  async transition(id: string, from: DelayedActionStatus, to: DelayedActionStatus, outcome: ActionOutcome = {}): Promise<boolean> {
+    const { changes } = this.db.prepare(`
+      UPDATE delayed_actions
+      SET status = ?, started_at = COALESCE(?, started_at), completed_at = COALESCE(?, completed_at),
+        result = COALESCE(?, result), error = COALESCE(?, error)
+      WHERE id = ? AND status = ?
+    `).run(to, outcome.startedAt ?? null, outcome.completedAt ?? null, outcome.result ?? null, outcome.error ?? null, id, from);
+    return changes === 1;
+  }
+
+  async listRunningSince(cutoff: number): Promise<DelayedAction[]> {
+    const rows = this.db
+      .prepare(`${SqliteDelayedActionStore.SELECT_ACTION} WHERE status = 'running' AND COALESCE(started_at, 0) < ?`)
+      .all(cutoff) as DelayedActionRow[];
+    return rows.map(fromRow);
+  }
+
+  async listUndelivered(sessionId: string): Promise<DelayedAction[]> {
+    const rows = this.db.prepare(`
+      ${SqliteDelayedActionStore.SELECT_ACTION}
+      WHERE session_id = ? AND status IN ('completed', 'failed') AND delivered_at IS NULL
+      ORDER BY completed_at ASC
+    `).all(sessionId) as DelayedActionRow[];
+    return rows.map(fromRow);
+  }
+
+  async markDelivered(id: string, deliveredAt: number): Promise<boolean> {
+    const { changes } = this.db.prepare(`
+      UPDATE delayed_actions SET delivered_at = ?
+      WHERE id = ? AND status IN ('completed', 'failed') AND delivered_at IS NULL
+    `).run(deliveredAt, id);
+    return changes === 1;
+  }
+
+  async deleteFinishedBefore(cutoff: number): Promise<number> {
+    const { changes } = this.db
+      .prepare(`DELETE FROM delayed_actions WHERE status NOT IN ('pending', 'running') AND COALESCE(completed_at, created_at) < ?`)
+      .run(cutoff);
+    return changes;
+  }
+}
+
+/**
+ * Redis store for deployments with several server instances. Each action is a JSON string; pending
+ * actions are also in a sorted set scored by executeAt, and each session has a set of its actions.
+ */
+export class RedisDelayedActionStore implements DelayedActionStore {
+  readonly kind = 'redis' as const;
+  private redis: Redis;
+  private static readonly KEY_PREFIX = 'vibe:delayed:';
+  private static readonly DUE_KEY = 'vibe:delayed:due';
+  private static readonly SESSION_PREFIX = 'vibe:delayed:session:';
+
+  // Compare-and-set of the status, atomic on the Redis server.
+  // KEYS: action, due set; ARGV: from, to, outcome JSON, id
+  private static readonly TRANSITION_SCRIPT = `
+    local stored = redis.call('GET', KEYS[1])
+    if not stored then return 0 end
+    local action = cjson.decode(stored)
+    if action.status ~= ARGV[1] then return 0 end
+    action.status = ARGV[2]
+    for field, value in pairs(cjson.decode(ARGV[3])) do action[field] = value end
+    redis.call('SET', KEYS[1], cjson.encode(action))
+    if ARGV[2] ~= 'pending' then redis.call('ZREM', KEYS[2], ARGV[4]) end
+    return 1`;
+
+  // KEYS: action; ARGV: deliveredAt
+  private static readonly MARK_DELIVERED_SCRIPT = `
+    local stored = redis.call('GET', KEYS[1])
+    if not stored then return 0 end
+    local action = cjson.decode(stored)
+    if (action.status ~= 'completed' and action.status ~= 'failed') or action.deliveredAt then return 0 end
+    action.deliveredAt = tonumber(ARGV[1])
+    redis.call('SET', KEYS[1], cjson.encode(action))
+    return 1`;
+
+  constructor(redisUrl: string) {
+    this.redis = new Redis(redisUrl, { maxRetriesPerRequest: 3 });
+
+    this.redis.on('error', (error) => {
+      Logger.error('Redis connection error in RedisDelayedActionStore', error);
+    });
+  }
+
+  private getKey(id: string): string {
+    return `${RedisDelayedActionStore.KEY_PREFIX}${id}`;
+  }
+
+  private getSessionKey(sessionId: string): string {
+    return `${RedisDelayedActionStore.SESSION_PREFIX}${sessionId}`;
+  }
+
+  private async getMany(ids: string[]): Promise<DelayedAction[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    const items = await this.redis.mget(...ids.map(id => this.getKey(id)));
+    return items.filter((item): item is string => item !== null).map(item => JSON.parse(item) as DelayedAction);
+  }
+
+  async add(action: DelayedAction): Promise<void> {
+    await this.redis.pipeline()
+      .set(this.getKey(action.id), JSON.stringify(action))
+      .zadd(RedisDelayedActionStore.DUE_KEY, action.executeAt, action.id)
+      .sadd(this.getSessionKey(action.sessionId), action.id)
+      .exec();
+  }
+
+  async get(id: string): Promise<DelayedAction | null> {
+    const item = await this.redis.get(this.getKey(id));
+    return item ? JSON.parse(item) as DelayedAction : null;
+  }
+
+  async listDue(now: number, limit: number): Promise<DelayedAction[]> {
+    const ids = await this.redis.zrangebyscore(RedisDelayedActionStore.DUE_KEY, 0, now, 'LIMIT', 0, limit);
+    return (await this.getMany(ids)).filter(action => action.status === 'pending');
+  }
+
+  async listBySession(sessionId: string): Promise<DelayedAction[]> {
+    const ids = await this.redis.smembers(this.getSessionKey(sessionId));
+    return (await this.getMany(ids)).sort((a, b) => a.executeAt - b.executeAt);
+  }
+
+  async transition(id: string, from: DelayedActionStatus, to: DelayedActionStatus, outcome: ActionOutcome = {}): Promise<boolean> {
+    const changed = await this.redis.eval(
+      RedisDelayedActionStore.TRANSITION_SCRIPT,
+      2,
+      this.getKey(id),
+      RedisDelayedActionStore.DUE_KEY,
+      from,
+      to,
+      JSON.stringify(outcome),
+      id
+    );
+    return changed === 1;
+  }
+
+  async listRunningSince(cutoff: number): Promise<DelayedAction[]> {
+    const running: DelayedAction[] = [];
+    await this.scanActions(async actions => {
+      running.push(...actions.filter(action => isRunningSince(action, cutoff)));
+    });
+    return running;
+  }
+
+  async listUndelivered(sessionId: string): Promise<DelayedAction[]> {
+    return (await this.listBySession(sessionId)).filter(isUndelivered).sort(byCompletion);
+  }
+
+  async markDelivered(id: string, deliveredAt: number): Promise<boolean> {
+    const changed = await this.redis.eval(RedisDelayedActionStore.MARK_DELIVERED_SCRIPT, 1, this.getKey(id), deliveredAt);
+    return changed === 1;
+  }
+
+  async deleteFinishedBefore(cutoff: number): Promise<number> {
+    let deleted = 0;
+    await this.scanActions(async actions => {
+      for (const action of actions) {
+        if (isFinished(action.status) && finishedAt(action) < cutoff) {
+          await this.redis.pipeline()
+            .del(this.getKey(action.id))
+            .srem(this.getSessionKey(action.sessionId), action.id)
+            .exec();
+          deleted++;
+        }
+      }
+    });
+    return deleted;
+  }
+
+  /**
+   * Walk every stored action a batch at a time; only the pending ones are indexed
+   */
+  private async scanActions(visit: (actions: DelayedAction[]) => Promise<void>): Promise<void> {
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.redis.scan(cursor, 'MATCH', `${RedisDelayedActionStore.KEY_PREFIX}*`, 'COUNT', 100);
+      cursor = next;
+      const ids = keys
+        .filter(key => key !== RedisDelayedActionStore.DUE_KEY && !key.startsWith(RedisDelayedActionStore.SESSION_PREFIX))
+        .map(key => key.slice(RedisDelayedActionStore.KEY_PREFIX.length));
+      await visit(await this.getMany(ids));
+    } while (cursor !== '0');
+  }
+}
+
+/**
+ * Build the store selected by DELAYED_ACTION_STORE (memory | sqlite | redis, default sqlite)
+ */
+export function createDelayedActionStore(): DelayedActionStore {
+  const kind = (process.env.DELAYED_ACTION_STORE || 'sqlite').trim().toLowerCase();
+
+  if (kind === 'memory') {
+    Logger.info('Using in-memory delayed action store');
+    return new InMemoryDelayedActionStore();
+  }
+
+  if (kind === 'sqlite') {
+    const filePath = process.env.DELAYED_ACTION_SQLITE_PATH || path.join(process.cwd(), '.data', 'delayed-actions.db');
+    Logger.info('Using SQLite delayed action store', { filePath });
+    return new SqliteDelayedActionStore(filePath);
+  }
+
+  if (kind === 'redis') {
+    const redisUrl = process.env.REDIS_URL;
+    if (!redisUrl) {
+      throw new Error('DELAYED_ACTION_STORE=redis but REDIS_URL is not set.');
+    }
+    Logger.info('Using Redis delayed action store');
+    return new RedisDelayedActionStore(redisUrl);
+  }
+
+  throw new Error(`Unsupported DELAYED_ACTION_STORE "${process.env.DELAYED_ACTION_STORE}". Use one of: memory, sqlite, redis.`);
+}
@@ -0,0 +1,183 @@
+import fs from 'fs';
+import { BaseChatModel, BindToolsInput } from '@langchain/core/language_models/chat_models';
+import { AIMessage, AIMessageChunk, BaseMessage, isAIMessage, ToolMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk, ChatResult } from '@langchain/core/outputs';
+import { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+
+/**
+ * One scripted turn. Rules with `match` are picked when the latest user message matches the regex;
+ * rules without it are replayed in order for messages that match nothing.
+ */
+export interface FakeScriptRule {
+  match?: string;
+  // Tool calls to make before answering. `{{toolResult}}` in the response is replaced with the tool output.
+  toolCalls?: Array<{ name: string; args: Record<string, unknown> }>;
+  response?: string;
+  // Simulate a provider failure, e.g. { "status": 429, "message": "Rate limit reached" }. With toolCalls,
+  // the failure comes after the tools have run.
+  error?: { status?: number; message: string };
+  // Pause between streamed words, to simulate a slow model
+  tokenDelayMs?: number;
+}
+
+export class FakeModelError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'FakeModelError';
+    this.status = status;
+  }
+}
+
+/**
+ * Read FAKE_MODEL_SCRIPT, which is either inline JSON or a path to a JSON file
+ */
+export function loadFakeScript(source: string | undefined = process.env.FAKE_MODEL_SCRIPT): FakeScriptRule[] {
+  if (!source?.trim()) {
+    return [];
+  }
+
+  const json = source.trim().startsWith('[') ? source : fs.readFileSync(source, 'utf8');
+  const script = JSON.parse(json);
+  if (!Array.isArray(script)) {
+    throw new Error('FAKE_MODEL_SCRIPT must be a JSON array of rules');
+  }
+  return script;
+}
+
+/**
+ * Deterministic chat model for tests and offline development. It never calls a network and
+ * replays scripted responses and tool calls; anything unscripted gets an echo reply.
+ */
+export class FakeChatModel extends BaseChatModel {
+  private script: FakeScriptRule[];
+  private replayIndex = 0;
+  private callCounter = 0;
+  // Which rule issued each tool call, so the follow-up answer comes from the same rule
+  private rulesByCallId: Map<string, FakeScriptRule> = new Map();
+  private lastRule?: FakeScriptRule;
+
+  constructor(script: FakeScriptRule[] = []) {
+    super({});
+    this.script = script;
+  }
+
+  _llmType(): string {
+    return 'fake';
+  }
+
+  /**
+   * Tools are driven by the script, so binding them changes nothing
+   */
+  bindTools(_tools: BindToolsInput[]): this {
+    return this;
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const message = this.nextMessage(messages);
+    return {
+      generations: [{ text: typeof message.content === 'string' ? message.content : '', message }]
+    };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions'],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const message = this.nextMessage(messages);
+
+    if (message.tool_calls && message.tool_calls.length > 0) {
+      const chunk = new ChatGenerationChunk({
+        text: '',
+        message: new AIMessageChunk({
+          content: '',
+          tool_call_chunks: message.tool_calls.map((call, index) => ({
+            name: call.name,
+            args: JSON.stringify(call.args),
+            id: call.id,
+            index,
+            type: 'tool_call_chunk' as const
+          }))
+        })
+      });
+      yield chunk;
+      // Real providers report tool-call tokens too, which stream consumers must filter out
+      await runManager?.handleLLMNewToken('', undefined, undefined, undefined, undefined, { chunk });
+      return;
+    }
+
+    // Stream word by word, keeping the whitespace, so the chunks join back to the full reply
+    const words = String(message.content).match(/\S+\s*|\s+/g) || [];
+    const delayMs = this.lastRule?.tokenDelayMs ?? 0;
+    for (const word of words) {
+      if (delayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+      options.signal?.throwIfAborted();
+      const chunk = new ChatGenerationChunk({ text: word, message: new AIMessageChunk({ content: word }) });
+      yield chunk;
+      await runManager?.handleLLMNewToken(word, undefined, undefined, undefined, undefined, { chunk });
+    }
+  }
+
+  private nextMessage(messages: BaseMessage[]): AIMessage {
+    const lastHumanIndex = this.findLastIndex(messages, message => message._getType() === 'human');
+    const userMessage = lastHumanIndex >= 0 ? String(messages[lastHumanIndex].content) : '';
+    const turnMessages = messages.slice(lastHumanIndex + 1);
+    const toolResults = turnMessages.filter((message): message is ToolMessage => message._getType() === 'tool');
+    const toolCallId = turnMessages
+      .filter(isAIMessage)
+      .map(message => message.tool_calls?.[0]?.id)
+      .find(Boolean);
+    const alreadyCalledTools = !!toolCallId;
+
+    // Mid-turn calls (after a tool ran) must keep using the rule that started the turn
+    const rule = toolCallId ? this.rulesByCallId.get(toolCallId) : this.selectRule(userMessage);
+    this.lastRule = rule;
+    if (!rule) {
+      return new AIMessage(`Fake reply to: ${userMessage}`);
+    }
+
+    if (rule.error && (!rule.toolCalls || alreadyCalledTools)) {
+      throw new FakeModelError(rule.error.message, rule.error.status);
+    }
+
+    if (rule.toolCalls && rule.toolCalls.length > 0 && !alreadyCalledTools) {
+      const toolCalls = rule.toolCalls.map(call => ({
+        id: `fake_call_${++this.callCounter}`,
+        name: call.name,
+        args: call.args,
+        type: 'tool_call' as const
+      }));
+      toolCalls.forEach(call => this.rulesByCallId.set(call.id, rule));
+      return new AIMessage({ content: '', tool_calls: toolCalls });
+    }
+
+    const toolResult = toolResults.map(message => String(message.content)).join('\n');
+    return new AIMessage((rule.response ?? '').replace(/\{\{toolResult\}\}/g, toolResult));
+  }
+
+  private selectRule(userMessage: string): FakeScriptRule | undefined {
+    const matched = this.script.find(rule => rule.match !== undefined && new RegExp(rule.match, 'i').test(userMessage));
+    if (matched) {
+      return matched;
+    }
+
+    const replay = this.script.filter(rule => rule.match === undefined);
+    if (replay.length === 0) {
+      return undefined;
+    }
+    return replay[this.replayIndex++ % replay.length];
+  }
+
+  private findLastIndex(messages: BaseMessage[], predicate: (message: BaseMessage) => boolean): number {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (predicate(messages[i])) {
+        return i;
+      }
+    }
+    return -1;
+  }
+}
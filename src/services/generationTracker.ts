@@ -0,0 +1,68 @@
+import { CancelReason } from '../types';
+import { Logger } from '../utils/logger';
+
+/**
+ * Keeps an AbortController for every in-flight generation by requestId, so a reply can be stopped
+ * from outside the request that started it (the client's "stop talking" button, a dropped socket)
+ */
+export class GenerationTracker {
+  private controllers: Map<string, AbortController> = new Map();
+
+  /**
+   * Register a generation and return the signal its model and tool calls should observe
+   */
+  start(requestId: string): AbortSignal {
+    const controller = new AbortController();
+    this.controllers.set(requestId, controller);
+    return controller.signal;
+  }
+
+  has(requestId: string): boolean {
+    return this.controllers.has(requestId);
+  }
+
+  /**
+   * Abort a generation. Returns false if it is unknown or has already finished.
+   */
+  cancel(requestId: string, reason: CancelReason): boolean {
+    const controller = this.controllers.get(requestId);
+    if (!controller || controller.signal.aborted) {
+      return false;
+    }
+
+    Logger.info('Cancelling generation', { requestId, reason });
+    controller.abort(reason);
+    return true;
+  }
+
+  finish(requestId: string): void {
+    this.controllers.delete(requestId);
+  }
+}
+
+/**
+ * Why a signal was aborted, if it was aborted by GenerationTracker.cancel()
+ */
+export function getCancelReason(signal?: AbortSignal): CancelReason | undefined {
+  if (!signal?.aborted) {
+    return undefined;
+  }
+  return signal.reason === 'client_cancelled' ? 'client_cancelled' : 'client_disconnected';
+}
+
+/**
+ * What happens to a turn that was cancelled mid-reply: discard drops it from memory entirely,
+ * save_partial keeps the user message and whatever was streamed, flagged `cancelled`
+ */
+export type CancelledTurnPolicy = 'discard' | 'save_partial';
+
+/**
+ * Resolve the policy from CANCELLED_TURN_MEMORY (discard | save_partial)
+ */
+export function getCancelledTurnPolicy(): CancelledTurnPolicy {
+  const policy = (process.env.CANCELLED_TURN_MEMORY || 'save_partial').trim().toLowerCase();
+  if (policy === 'discard' || policy === 'save_partial') {
+    return policy;
+  }
+  throw new Error(`Unsupported CANCELLED_TURN_MEMORY "${process.env.CANCELLED_TURN_MEMORY}". Use one of: discard, save_partial.`);
+}
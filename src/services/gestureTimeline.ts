@@ -0,0 +1,141 @@
+import { ParsedGestures } from './gestures';
+import { RhubarbMouthCue } from './rhubarbService';
+import { GestureCue } from '../types';
+
+export interface WordTiming {
+  word: string;
+  charOffset: number;
+  start: number;
+  end: number;
+}
+
+export interface TimelineEvent {
+  time: number;
+  type: 'mood' | 'gesture';
+  tag: string;
+  charOffset: number;
+}
+
+/**
+ * When each mood and gesture tag should fire, in seconds from the start of the audio
+ */
+export interface GestureTimeline {
+  spokenText: string;
+  mood: string;
+  events: TimelineEvent[];
+  words: WordTiming[];
+}
+
+interface SpeechSegment {
+  start: number;
+  end: number;
+}
+
+// Rhubarb's rest position: the mouth is closed and nobody is talking
+const SILENT_SHAPE = 'X';
+const BOUNDARY_EPSILON = 1e-6;
+
+const round = (seconds: number): number => Math.round(seconds * 100) / 100;
+
+/**
+ * Rough syllable count, which tracks how long a word takes to say better than its length does
+ */
+const wordWeight = (word: string): number => Math.max(1, (word.match(/[aeiouy]+/gi) || []).length);
+
+/**
+ * The stretches of audio where the mouth is moving, with adjacent cues merged
+ */
+function getSpeechSegments(mouthCues: RhubarbMouthCue[], duration: number): SpeechSegment[] {
+  const segments: SpeechSegment[] = [];
+  for (const cue of mouthCues) {
+    if (cue.value === SILENT_SHAPE) {
+      continue;
+    }
+    const last = segments[segments.length - 1];
+    if (last && cue.start - last.end < BOUNDARY_EPSILON) {
+      last.end = cue.end;
+    } else {
+      segments.push({ start: cue.start, end: cue.end });
+    }
+  }
+
+  return segments.length > 0 ? segments : [{ start: 0, end: duration }];
+}
+
+/**
+ * Estimate when each word of the dialog is spoken. Rhubarb only reports mouth shapes, so words are
+ * spread over the speaking segments in proportion to their syllables, which keeps pauses between
+ * sentences out of the words around them.
+ */
+export function estimateWordTimings(spokenText: string, mouthCues: RhubarbMouthCue[], duration: number): WordTiming[] {
+  const words = Array.from(spokenText.matchAll(/\S+/g)).map(match => ({ word: match[0], charOffset: match.index as number }));
+  if (words.length === 0) {
+    return [];
+  }
+
+  const segments = getSpeechSegments(mouthCues, duration);
+  const speechTime = segments.reduce((total, segment) => total + segment.end - segment.start, 0);
+  const totalWeight = words.reduce((total, { word }) => total + wordWeight(word), 0);
+
+  // Convert a position in speaking time to a timestamp in the audio. At a segment boundary (give or
+  // take rounding error) a word start belongs to the next segment and a word end to the previous one.
+  const toAudioTime = (position: number, isEnd: boolean): number => {
+    let elapsed = 0;
+    for (const segment of segments) {
+      const length = segment.end - segment.start;
+      const boundary = elapsed + length;
+      if (isEnd ? position <= boundary + BOUNDARY_EPSILON : position < boundary - BOUNDARY_EPSILON) {
+        return segment.start + (position - elapsed);
+      }
+      elapsed += length;
+    }
+    return segments[segments.length - 1].end;
+  };
+
+  let spokenWeight = 0;
+  return words.map(({ word, charOffset }) => {
+    const start = toAudioTime((spokenWeight / totalWeight) * speechTime, false);
+    spokenWeight += wordWeight(word);
+    const end = toAudioTime((spokenWeight / totalWeight) * speechTime, true);
+    return { word, charOffset, start: round(start), end: round(end) };
+  });
+}
+
+/**
+ * When each gesture fires: as the word it precedes starts, or at the end if no word follows
+ */
+export function timeGestures(
+  gestures: GestureCue[],
+  words: WordTiming[],
+  duration: number
+): { tag: string; charOffset: number; time: number }[] {
+  return gestures.map(gesture => {
+    const word = words.find(candidate => candidate.charOffset >= gesture.charOffset);
+    return { tag: gesture.tag, charOffset: gesture.charOffset, time: word ? word.start : round(duration) };
+  });
+}
+
+/**
+ * Place the mood and each gesture of a parsed reply on the audio's timeline. A gesture fires when
+ * the word it precedes starts; the mood is set from the very beginning.
+ */
+export function buildGestureTimeline(parsed: ParsedGestures, mouthCues: RhubarbMouthCue[], duration: number): GestureTimeline {
+  const words = estimateWordTimings(parsed.spokenText, mouthCues, duration);
+
+  const events: TimelineEvent[] = [
+    { time: 0, type: 'mood', tag: parsed.mood, charOffset: 0 },
+    ...timeGestures(parsed.gestures, words, duration).map(({ time, tag, charOffset }) => ({
+      time,
+      type: 'gesture' as const,
+      tag,
+      charOffset
+    }))
+  ];
+
+  return {
+    spokenText: parsed.spokenText,
+    mood: parsed.mood,
+    events,
+    words
+  };
+}
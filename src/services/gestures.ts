@@ -0,0 +1,216 @@
+import { GestureCue } from '../types';
+
+// The tag vocabulary getPersonalityPrompt teaches the model
+export const MOOD_TAGS = ['happy', 'excited', 'serious', 'skeptical', 'calm'] as const;
+export const GESTURE_TAGS = [
+  'nod', 'shake', 'head_tilt', 'emphasize',
+  'look_up', 'look_away', 'look_at',
+  'smile', 'squint', 'think',
+  'widen_eyes', 'eyebrow_raise', 'wink'
+] as const;
+
+export type MoodTag = typeof MOOD_TAGS[number];
+export type GestureTag = typeof GESTURE_TAGS[number];
+
+export const DEFAULT_MOOD: MoodTag = 'calm';
+
+/**
+ * Rule violations that were repaired instead of reaching the client
+ */
+export type GestureRepair =
+  | { type: 'missing_mood' }
+  | { type: 'unknown_mood'; tag: string }
+  | { type: 'misplaced_mood'; tag: string }
+  | { type: 'unknown_tag'; tag: string }
+  | { type: 'stacked_tags'; dropped: string }
+  | { type: 'trailing_tag'; tag: string };
+
+export type GestureEvent =
+  | { type: 'mood'; mood: MoodTag }
+  | { type: 'gesture'; tag: GestureTag; charOffset: number }
+  | { type: 'text'; text: string };
+
+export interface ParsedGestures {
+  spokenText: string;
+  mood: MoodTag;
+  gestures: GestureCue[];
+  repairs: GestureRepair[];
+}
+
+const TAG_AT_START = /^\[(mood:)?([a-z_]+)\]/i;
+// Text that could still turn into a tag once more tokens arrive
+const PARTIAL_TAG = /^\[(?:mood:?)?[a-z_]*$/i;
+const MAX_TAG_LENGTH = 32;
+
+const isMoodTag = (tag: string): tag is MoodTag => (MOOD_TAGS as readonly string[]).includes(tag);
+const isGestureTag = (tag: string): tag is GestureTag => (GESTURE_TAGS as readonly string[]).includes(tag);
+
+/**
+ * Incrementally separates a reply into spoken text, its mood and gesture cues, enforcing the
+ * prompt's tag rules as it goes:
+ *  - the mood comes from a leading [mood:x] tag, or falls back when it is missing or unknown
+ *  - mood tags after the first spoken word and unknown tags are dropped
+ *  - of stacked tags only the last, the one nearest the words it accompanies, is kept
+ *  - a gesture is only emitted once text follows it, so a trailing tag is dropped
+ * Tags may be split across pushes.
+ */
+export class GestureParser {
+  private pending = '';
+  private spoken = '';
+  private mood: MoodTag | null = null;
+  private pendingGesture: GestureTag | null = null;
+  private skipWhitespace = true;
+  private repairs: GestureRepair[] = [];
+  private fallbackMood: MoodTag;
+
+  constructor(fallbackMood: MoodTag = DEFAULT_MOOD) {
+    this.fallbackMood = fallbackMood;
+  }
+
+  push(text: string): GestureEvent[] {
+    const events: GestureEvent[] = [];
+    this.pending += text;
+
+    while (this.pending) {
+      const open = this.pending.indexOf('[');
+      if (open === -1) {
+        this.appendText(this.pending, events);
+        this.pending = '';
+        break;
+      }
+
+      this.appendText(this.pending.slice(0, open), events);
+      const rest = this.pending.slice(open);
+
+      const tag = rest.match(TAG_AT_START);
+      if (tag) {
+        this.handleTag(tag[2].toLowerCase(), !!tag[1], events);
+        this.pending = rest.slice(tag[0].length);
+        continue;
+      }
+
+      if (PARTIAL_TAG.test(rest) && rest.length <= MAX_TAG_LENGTH) {
+        // Wait for the rest of the tag
+        this.pending = rest;
+        break;
+      }
+
+      // Just a bracket in the text
+      this.appendText('[', events);
+      this.pending = rest.slice(1);
+    }
+
+    return events;
+  }
+
+  /**
+   * Call once the reply is complete
+   */
+  flush(): GestureEvent[] {
+    const events: GestureEvent[] = [];
+
+    // An unfinished tag at the very end is dropped rather than spoken
+    if (this.pending && !PARTIAL_TAG.test(this.pending)) {
+      this.appendText(this.pending, events);
+    }
+    this.pending = '';
+
+    if (this.pendingGesture) {
+      this.repairs.push({ type: 'trailing_tag', tag: this.pendingGesture });
+      this.pendingGesture = null;
+    }
+    this.resolveMood(events);
+
+    return events;
+  }
+
+  getMood(): MoodTag | null {
+    return this.mood;
+  }
+
+  getSpokenText(): string {
+    return this.spoken.trim();
+  }
+
+  getRepairs(): GestureRepair[] {
+    return [...this.repairs];
+  }
+
+  private handleTag(name: string, isMood: boolean, events: GestureEvent[]): void {
+    // Tags are followed by a space that should not be spoken twice
+    this.skipWhitespace = true;
+
+    if (isMood) {
+      if (this.mood !== null || this.spoken !== '') {
+        this.repairs.push({ type: 'misplaced_mood', tag: name });
+      } else if (isMoodTag(name)) {
+        this.mood = name;
+        events.push({ type: 'mood', mood: name });
+      } else {
+        this.repairs.push({ type: 'unknown_mood', tag: name });
+        this.resolveMood(events);
+      }
+      return;
+    }
+
+    if (!isGestureTag(name)) {
+      this.repairs.push({ type: 'unknown_tag', tag: name });
+      return;
+    }
+
+    if (this.pendingGesture) {
+      this.repairs.push({ type: 'stacked_tags', dropped: this.pendingGesture });
+    }
+    this.pendingGesture = name;
+  }
+
+  private appendText(text: string, events: GestureEvent[]): void {
+    if (this.skipWhitespace) {
+      text = text.replace(/^\s+/, '');
+      if (!text) {
+        return;
+      }
+      this.skipWhitespace = false;
+    }
+
+    this.resolveMood(events);
+    if (this.pendingGesture) {
+      events.push({ type: 'gesture', tag: this.pendingGesture, charOffset: this.spoken.length });
+      this.pendingGesture = null;
+    }
+
+    this.spoken += text;
+    events.push({ type: 'text', text });
+  }
+
+  /**
+   * Settle on the fallback mood if no valid mood tag came before the first spoken word
+   */
+  private resolveMood(events: GestureEvent[]): void {
+    if (this.mood !== null) {
+      return;
+    }
+    if (!this.repairs.some(repair => repair.type === 'unknown_mood')) {
+      this.repairs.push({ type: 'missing_mood' });
+    }
+    this.mood = this.fallbackMood;
+    events.push({ type: 'mood', mood: this.mood });
+  }
+}
+
+/**
+ * Parse a complete reply
+ */
+export function parseGestureTags(text: string, fallbackMood: MoodTag = DEFAULT_MOOD): ParsedGestures {
+  const parser = new GestureParser(fallbackMood);
+  const events = [...parser.push(text), ...parser.flush()];
+
+  return {
+    spokenText: parser.getSpokenText(),
+    mood: parser.getMood() as MoodTag,
+    gestures: events
+      .filter((event): event is Extract<GestureEvent, { type: 'gesture' }> => event.type === 'gesture')
+      .map(({ tag, charOffset }) => ({ tag, charOffset })),
+    repairs: parser.getRepairs()
+  };
+}
@@ -0,0 +1,85 @@
+import { Logger } from '../utils/logger';
+
+export type ToolCallingSetting = 'auto' | 'true' | 'false';
+
+const PROBE_TIMEOUT_MS = 15000;
+
+// A trivial tool the model has every reason to call if the server supports tool calling
+const PROBE_TOOL = {
+  type: 'function',
+  function: {
+    name: 'get_current_time',
+    description: 'Returns the current time. Always call this when asked for the time.',
+    parameters: { type: 'object', properties: {}, required: [] }
+  }
+};
+
+/**
+ * The part of an OpenAI-compatible /chat/completions response the probe reads. Servers vary, so
+ * every level is optional.
+ */
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      tool_calls?: unknown[];
+    };
+  }>;
+}
+
+export function getLocalBaseUrl(): string | undefined {
+  const baseUrl = process.env.LOCAL_MODEL_BASE_URL?.trim();
+  return baseUrl ? baseUrl.replace(/\/+$/, '') : undefined;
+}
+
+export function getLocalApiKey(): string {
+  // Most local servers ignore the key, but the OpenAI client refuses to run without one
+  return process.env.LOCAL_API_KEY?.trim() || 'not-needed';
+}
+
+export function getToolCallingSetting(): ToolCallingSetting {
+  const value = (process.env.LOCAL_TOOL_CALLING || 'auto').trim().toLowerCase();
+  return value === 'true' || value === 'false' ? value : 'auto';
+}
+
+/**
+ * Ask an OpenAI-compatible server whether a model can do tool calls.
+ * llama.cpp (without --jinja), older Ollama models and vLLM without --enable-auto-tool-choice
+ * either reject the `tools` parameter or ignore it and answer in plain text.
+ * Returns null when the server could not be reached, so the probe can be retried later.
+ */
+export async function probeToolCalling(baseUrl: string, model: string, apiKey: string): Promise<boolean | null> {
+  try {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: 'What time is it? Use the tool.' }],
+        tools: [PROBE_TOOL],
+        tool_choice: 'auto',
+        max_tokens: 64,
+        temperature: 0
+      }),
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      Logger.warn('Local model rejected tool-calling probe', { model, status: response.status });
+      return false;
+    }
+
+    const data = await response.json() as ChatCompletionResponse | null;
+    const toolCalls = data?.choices?.[0]?.message?.tool_calls;
+    return Array.isArray(toolCalls) && toolCalls.length > 0;
+  } catch (error) {
+    Logger.warn('Local model tool-calling probe failed', {
+      model,
+      baseUrl,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
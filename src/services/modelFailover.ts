@@ -0,0 +1,287 @@
+import { ModelEntry, ModelRegistry, ProviderName, PROVIDER_PRIORITY } from './modelRegistry';
+import { Logger } from '../utils/logger';
+import { getRequestContext } from '../utils/requestContext';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+interface ProviderCircuit {
+  consecutiveFailures: number;
+  openedAt?: number;
+}
+
+export interface FailoverResult<T> {
+  result: T;
+  entry: ModelEntry;
+  attempts: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// A cancelled request must not be retried or handed to the next provider
+const isCancelled = (): boolean => getRequestContext()?.signal?.aborted === true;
+
+/**
+ * Pull an HTTP status out of the different error shapes the provider SDKs throw
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const candidate = error as { status?: unknown; statusCode?: unknown; response?: { status?: unknown } } | undefined;
+  const status = candidate?.status ?? candidate?.statusCode ?? candidate?.response?.status;
+  if (typeof status === 'number') {
+    return status;
+  }
+
+  const match = error instanceof Error ? error.message.match(/\b(429|5\d\d)\b/) : null;
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Rate limits, server errors and network failures are worth retrying or failing over; bad requests are not
+ */
+export function isRetryableError(error: unknown): boolean {
+  if ((error as Error)?.name === 'AbortError') {
+    return false;
+  }
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status === 429 || status >= 500;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return /rate limit|timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|socket hang up|fetch failed|overloaded/i.test(message);
+}
+
+/**
+ * Ordered provider failover with retry-with-backoff and a per-provider circuit breaker
+ */
+export class ModelFailover {
+  private registry: ModelRegistry;
+  private circuits: Map<ProviderName, ProviderCircuit> = new Map();
+  private enabled: boolean;
+  private retryAttempts: number;
+  private retryBaseDelayMs: number;
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private providerOrder: ProviderName[];
+
+  constructor(registry: ModelRegistry) {
+    this.registry = registry;
+    this.enabled = process.env.MODEL_FAILOVER !== 'false';
+    this.retryAttempts = this.readInt('MODEL_RETRY_ATTEMPTS', 2);
+    this.retryBaseDelayMs = this.readInt('MODEL_RETRY_BASE_DELAY_MS', 500);
+    this.failureThreshold = this.readInt('CIRCUIT_FAILURE_THRESHOLD', 3);
+    this.cooldownMs = this.readInt('CIRCUIT_COOLDOWN_MS', 60000);
+
+    const configuredOrder = (process.env.FAILOVER_ORDER || '')
+      .split(',')
+      .map(item => item.trim().toLowerCase())
+      .filter((item): item is ProviderName => (PROVIDER_PRIORITY as string[]).includes(item));
+    this.providerOrder = configuredOrder.length > 0 ? configuredOrder : PROVIDER_PRIORITY;
+  }
+
+  private readInt(name: string, fallback: number): number {
+    const parsed = parseInt(process.env[name] || '', 10);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  }
+
+  /**
+   * The selected model first, then each other provider's default model, skipping providers whose circuit is open
+   */
+  getChain(primary: ModelEntry): ModelEntry[] {
+    if (!this.enabled) {
+      return [primary];
+    }
+
+    const chain = [primary];
+    for (const provider of this.providerOrder) {
+      if (provider === primary.provider) {
+        continue;
+      }
+      const fallback = this.registry.getProviderDefault(provider);
+      if (fallback) {
+        chain.push(fallback);
+      }
+    }
+
+    const available = chain.filter(entry => this.getCircuitState(entry.provider) !== 'open');
+    // When every provider is tripped, still try the selected one rather than failing outright
+    return available.length > 0 ? available : [primary];
+  }
+
+  getCircuitState(provider: ProviderName): CircuitState {
+    const circuit = this.circuits.get(provider);
+    if (!circuit?.openedAt) {
+      return 'closed';
+    }
+    return Date.now() - circuit.openedAt >= this.cooldownMs ? 'half_open' : 'open';
+  }
+
+  recordSuccess(entry: ModelEntry): void {
+    const circuit = this.circuits.get(entry.provider);
+    if (circuit && (circuit.consecutiveFailures > 0 || circuit.openedAt)) {
+      Logger.info('Provider recovered, closing circuit', { provider: entry.provider });
+    }
+    this.circuits.delete(entry.provider);
+  }
+
+  recordFailure(entry: ModelEntry, error: unknown): void {
+    const circuit = this.circuits.get(entry.provider) || { consecutiveFailures: 0 };
+    const wasHalfOpen = this.getCircuitState(entry.provider) === 'half_open';
+    circuit.consecutiveFailures++;
+
+    if (wasHalfOpen || circuit.consecutiveFailures >= this.failureThreshold) {
+      circuit.openedAt = Date.now();
+      Logger.warn('Provider circuit opened', {
+        provider: entry.provider,
+        consecutiveFailures: circuit.consecutiveFailures,
+        cooldownMs: this.cooldownMs,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    this.circuits.set(entry.provider, circuit);
+  }
+
+  private backoffDelay(attempt: number): number {
+    return this.retryBaseDelayMs * 2 ** attempt + Math.random() * this.retryBaseDelayMs;
+  }
+
+  private logRetry(entry: ModelEntry, requestId: string, attempt: number, delay: number, error: unknown): void {
+    Logger.warn('Retrying model call after retryable error', {
+      requestId,
+      modelId: entry.id,
+      attempt,
+      delayMs: Math.round(delay),
+      status: getErrorStatus(error)
+    });
+  }
+
+  private logFailover(entry: ModelEntry, next: ModelEntry | undefined, requestId: string, error: unknown): void {
+    Logger.warn('Model provider failed, failing over', {
+      requestId,
+      failedModel: entry.id,
+      nextModel: next?.id || 'none',
+      status: getErrorStatus(error),
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  /**
+   * Run a call against one model, retrying retryable errors with exponential backoff and jitter
+   */
+  async withRetry<T>(
+    entry: ModelEntry,
+    requestId: string,
+    fn: (entry: ModelEntry) => Promise<T>,
+    canRetry: () => boolean = () => true
+  ): Promise<T> {
+    let attempt = 0;
+
+    while (true) {
+      try {
+        return await fn(entry);
+      } catch (error) {
+        if (attempt >= this.retryAttempts || !isRetryableError(error) || isCancelled() || !canRetry()) {
+          throw error;
+        }
+
+        const delay = this.backoffDelay(attempt);
+        attempt++;
+        this.logRetry(entry, requestId, attempt, delay, error);
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Run a call through the failover chain. Non-retryable errors stop the chain immediately. A call
+   * that has done something that must not happen twice, e.g. run a tool, calls markCommitted; like
+   * stream() once output has started, its errors are then rethrown as-is.
+   */
+  async run<T>(
+    primary: ModelEntry,
+    requestId: string,
+    fn: (entry: ModelEntry, markCommitted: () => void) => Promise<T>
+  ): Promise<FailoverResult<T>> {
+    const chain = this.getChain(primary);
+    let lastError: unknown;
+    let committed = false;
+    const call = (entry: ModelEntry) => fn(entry, () => {
+      committed = true;
+    });
+
+    for (let i = 0; i < chain.length; i++) {
+      const entry = chain[i];
+      try {
+        const result = await this.withRetry(entry, requestId, call, () => !committed);
+        this.recordSuccess(entry);
+        return { result, entry, attempts: i + 1 };
+      } catch (error) {
+        lastError = error;
+        if (committed || !isRetryableError(error) || isCancelled()) {
+          throw error;
+        }
+
+        this.recordFailure(entry, error);
+        this.logFailover(entry, chain[i + 1], requestId, error);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Streaming variant of run(). A model can only be retried or failed over before it has produced
+   * anything; once output has reached the caller, errors are rethrown as-is.
+   */
+  async *stream<T>(
+    primary: ModelEntry,
+    requestId: string,
+    fn: (entry: ModelEntry) => AsyncIterable<T>,
+    onModelUsed?: (entry: ModelEntry) => void
+  ): AsyncGenerator<T, void, unknown> {
+    const chain = this.getChain(primary);
+
+    for (let i = 0; i < chain.length; i++) {
+      const entry = chain[i];
+      let attempt = 0;
+
+      while (true) {
+        let started = false;
+        try {
+          for await (const value of fn(entry)) {
+            if (!started) {
+              started = true;
+              onModelUsed?.(entry);
+            }
+            yield value;
+          }
+          if (!started) {
+            onModelUsed?.(entry);
+          }
+          this.recordSuccess(entry);
+          return;
+        } catch (error) {
+          if (started || !isRetryableError(error) || isCancelled()) {
+            throw error;
+          }
+
+          if (attempt < this.retryAttempts) {
+            const delay = this.backoffDelay(attempt);
+            attempt++;
+            this.logRetry(entry, requestId, attempt, delay, error);
+            await sleep(delay);
+            continue;
+          }
+
+          this.recordFailure(entry, error);
+          if (i === chain.length - 1) {
+            throw error;
+          }
+          this.logFailover(entry, chain[i + 1], requestId, error);
+          break;
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,354 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
+import { ChatGroq } from '@langchain/groq';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { createReactAgent } from '@langchain/langgraph/prebuilt';
+import { Tool } from '@langchain/core/tools';
+import { PersonalityMode } from '../types';
+import { Logger } from '../utils/logger';
+import { getLocalApiKey, getLocalBaseUrl, getToolCallingSetting, probeToolCalling } from './localModelProvider';
+import { FakeChatModel, loadFakeScript } from './fakeChatModel';
+
+export type ProviderName = 'groq' | 'openai' | 'google' | 'local' | 'fake';
+
+// Cloud providers win when keys are present; a local server is the offline fallback.
+// The fake provider is only ever registered when explicitly selected with AI_PROVIDER=fake.
+export const PROVIDER_PRIORITY: ProviderName[] = ['groq', 'openai', 'google', 'local', 'fake'];
+
+export interface ModelSelection {
+  provider?: string;
+  model?: string;
+}
+
+export interface ModelInfo {
+  id: string;
+  provider: ProviderName;
+  model: string;
+  isDefault: boolean;
+  isProviderDefault: boolean;
+}
+
+/**
+ * A configured chat model plus its lazily built ReAct agent
+ */
+export interface ModelEntry {
+  id: string;
+  provider: ProviderName;
+  model: string;
+  chatModel: BaseChatModel;
+  getAgent(): any;
+  supportsTools(): Promise<boolean>;
+}
+
+/**
+ * Returns whether a model can do tool calls, or null when that could not be determined yet
+ */
+type ToolCallingDetector = (model: string) => Promise<boolean | null>;
+
+interface ProviderConfig {
+  // Env var that must be set for the provider to be registered (API key or server URL)
+  requiredEnv: string;
+  modelEnv: string;
+  extraModelsEnv: string;
+  defaultModel: string;
+  create(model: string): BaseChatModel;
+  detectToolCalling?: ToolCallingDetector;
+  // Overrides the requiredEnv check
+  isConfigured?(): boolean;
+}
+
+const MODEL_OPTIONS = { temperature: 0.8, reasoning_effort: 'high' };
+
+const PROVIDERS: Record<ProviderName, ProviderConfig> = {
+  groq: {
+    requiredEnv: 'GROQ_API_KEY',
+    modelEnv: 'GROQ_MODEL',
+    extraModelsEnv: 'GROQ_MODELS',
+    defaultModel: 'openai/gpt-oss-20b',
+    create: (model) => new ChatGroq({ model, ...MODEL_OPTIONS })
+  },
+  openai: {
+    requiredEnv: 'OPENAI_API_KEY',
+    modelEnv: 'OPENAI_MODEL',
+    extraModelsEnv: 'OPENAI_MODELS',
+    defaultModel: 'gpt-4o-mini',
+    create: (model) => new ChatOpenAI({ modelName: model, streaming: true, ...MODEL_OPTIONS })
+  },
+  google: {
+    requiredEnv: 'GOOGLE_API_KEY',
+    modelEnv: 'GOOGLE_MODEL',
+    extraModelsEnv: 'GOOGLE_MODELS',
+    defaultModel: 'gemini-1.5-flash',
+    create: (model) => new ChatGoogleGenerativeAI({ model, ...MODEL_OPTIONS })
+  },
+  local: {
+    // Any OpenAI-compatible server: llama.cpp, Ollama (http://localhost:11434/v1), vLLM, ...
+    requiredEnv: 'LOCAL_MODEL_BASE_URL',
+    modelEnv: 'LOCAL_MODEL',
+    extraModelsEnv: 'LOCAL_MODELS',
+    defaultModel: 'llama3.1',
+    create: (model) => new ChatOpenAI({
+      model,
+      apiKey: getLocalApiKey(),
+      temperature: MODEL_OPTIONS.temperature,
+      streaming: true,
+      configuration: { baseURL: getLocalBaseUrl() }
+    }),
+    detectToolCalling: async (model) => {
+      const setting = getToolCallingSetting();
+      if (setting !== 'auto') {
+        return setting === 'true';
+      }
+      return probeToolCalling(getLocalBaseUrl() as string, model, getLocalApiKey());
+    }
+  },
+  fake: {
+    // Scripted model for tests and offline development, see fakeChatModel.ts
+    requiredEnv: 'AI_PROVIDER',
+    modelEnv: 'FAKE_MODEL',
+    extraModelsEnv: 'FAKE_MODELS',
+    defaultModel: 'scripted',
+    create: () => new FakeChatModel(loadFakeScript()),
+    isConfigured: () => (process.env.AI_PROVIDER || '').trim().toLowerCase() === 'fake'
+  }
+};
+
+const hasUsableKey = (value?: string): boolean => {
+  if (!value) return false;
+  const trimmed = value.trim();
+  if (!trimmed) return false;
+  return !trimmed.startsWith('your_');
+};
+
+const parseList = (value?: string): string[] =>
+  (value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Holds every configured provider/model so each request can pick one at runtime
+ */
+export class ModelRegistry {
+  private entries: Map<string, ModelEntry> = new Map();
+  private providerDefaults: Map<ProviderName, string> = new Map();
+  private personalityDefaults: Map<PersonalityMode, string> = new Map();
+  private defaultId!: string;
+  private tools: Tool[];
+
+  constructor(tools: Tool[]) {
+    this.tools = tools;
+    this.registerConfiguredProviders();
+    this.selectDefault();
+    this.loadPersonalityDefaults();
+  }
+
+  /**
+   * Register every provider that has a usable API key (or server URL), with its default and extra models
+   */
+  private registerConfiguredProviders(): void {
+    for (const provider of PROVIDER_PRIORITY) {
+      const config = PROVIDERS[provider];
+      const configured = config.isConfigured ? config.isConfigured() : hasUsableKey(process.env[config.requiredEnv]);
+      if (!configured) {
+        continue;
+      }
+
+      const defaultModel = process.env[config.modelEnv] || config.defaultModel;
+      const models = [defaultModel, ...parseList(process.env[config.extraModelsEnv])];
+
+      for (const model of new Set(models)) {
+        this.register(provider, model, config.create(model), config.detectToolCalling);
+      }
+      this.providerDefaults.set(provider, `${provider}:${defaultModel}`);
+      Logger.info('Registered model provider', { provider, models: Array.from(new Set(models)) });
+    }
+  }
+
+  /**
+   * Add a chat model to the registry. The agent is only built the first time it is needed,
+   * and tool-calling support is detected once on first use when a detector is given.
+   */
+  register(provider: ProviderName, model: string, chatModel: BaseChatModel, detectToolCalling?: ToolCallingDetector): ModelEntry {
+    const id = `${provider}:${model}`;
+    let agent: any;
+    let toolCalling: Promise<boolean | null> | undefined;
+    const tools = this.tools;
+
+    const entry: ModelEntry = {
+      id,
+      provider,
+      model,
+      chatModel,
+      getAgent() {
+        if (!agent) {
+          agent = createReactAgent({ llm: chatModel, tools });
+          Logger.info('ReAct agent initialized successfully', {
+            modelId: id,
+            modelType: chatModel.constructor.name,
+            toolsCount: tools.length,
+            toolNames: tools.map(t => t.name)
+          });
+        }
+        return agent;
+      },
+      async supportsTools() {
+        if (!detectToolCalling) {
+          return true;
+        }
+        if (!toolCalling) {
+          toolCalling = detectToolCalling(model);
+        }
+
+        const supported = await toolCalling;
+        if (supported === null) {
+          // Server unreachable: don't cache, try again on the next request
+          toolCalling = undefined;
+          return false;
+        }
+        return supported;
+      }
+    };
+
+    this.entries.set(id, entry);
+    return entry;
+  }
+
+  /**
+   * Default provider priority: AI_PROVIDER override > Groq > OpenAI > Google > local server
+   */
+  private selectDefault(): void {
+    const requestedProvider = (process.env.AI_PROVIDER || '').trim().toLowerCase();
+
+    if (requestedProvider) {
+      if (!(requestedProvider in PROVIDERS)) {
+        throw new Error(`Unsupported AI_PROVIDER "${process.env.AI_PROVIDER}". Use one of: ${PROVIDER_PRIORITY.join(', ')}.`);
+      }
+
+      const provider = requestedProvider as ProviderName;
+      const defaultId = this.providerDefaults.get(provider);
+      if (!defaultId) {
+        throw new Error(`AI_PROVIDER=${provider} but ${PROVIDERS[provider].requiredEnv} is missing or invalid.`);
+      }
+      this.defaultId = defaultId;
+      return;
+    }
+
+    const firstConfigured = PROVIDER_PRIORITY.find(provider => this.providerDefaults.has(provider));
+    if (!firstConfigured) {
+      const error = 'No API key found. Please set GROQ_API_KEY, OPENAI_API_KEY, or GOOGLE_API_KEY in your environment variables, or LOCAL_MODEL_BASE_URL for a local model server.';
+      Logger.error('Model initialization failed', new Error(error));
+      throw new Error(error);
+    }
+
+    this.defaultId = this.providerDefaults.get(firstConfigured) as string;
+  }
+
+  /**
+   * Parse PERSONALITY_MODELS, e.g. "roast=groq:openai/gpt-oss-120b,sleepy=openai"
+   */
+  private loadPersonalityDefaults(): void {
+    for (const pair of parseList(process.env.PERSONALITY_MODELS)) {
+      const separator = pair.indexOf('=');
+      if (separator <= 0) {
+        Logger.warn('Ignoring malformed PERSONALITY_MODELS entry', { entry: pair });
+        continue;
+      }
+
+      const personality = pair.slice(0, separator).trim() as PersonalityMode;
+      const target = pair.slice(separator + 1).trim();
+      const entry = this.find(target.includes(':') ? { model: target } : { provider: target });
+
+      if (!entry) {
+        Logger.warn('Personality default model is not configured, using global default', { personality, target });
+        continue;
+      }
+      this.personalityDefaults.set(personality, entry.id);
+    }
+  }
+
+  /**
+   * Look up a model by provider and/or model name. Model may be a full "provider:model" ID.
+   */
+  private find(selection: ModelSelection): ModelEntry | undefined {
+    const provider = selection.provider?.trim().toLowerCase();
+    const model = selection.model?.trim();
+
+    if (model) {
+      const direct = this.entries.get(model) || (provider ? this.entries.get(`${provider}:${model}`) : undefined);
+      if (direct && (!provider || direct.provider === provider)) {
+        return direct;
+      }
+      return Array.from(this.entries.values()).find(entry =>
+        entry.model === model && (!provider || entry.provider === provider)
+      );
+    }
+
+    if (provider) {
+      const providerDefault = this.providerDefaults.get(provider as ProviderName);
+      return providerDefault ? this.entries.get(providerDefault) : undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check a client-supplied selection. Returns an error message or null.
+   */
+  validateSelection(selection: ModelSelection): string | null {
+    if (!selection.provider && !selection.model) {
+      return null;
+    }
+
+    if (selection.provider !== undefined && typeof selection.provider !== 'string') {
+      return 'provider must be a string';
+    }
+    if (selection.model !== undefined && typeof selection.model !== 'string') {
+      return 'model must be a string';
+    }
+
+    if (!this.find(selection)) {
+      const label = [selection.provider, selection.model].filter(Boolean).join(' / ');
+      return `Model not available: ${label}. See GET /api/agent/models for configured models.`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Pick the model for a request: explicit selection > personality default > global default
+   */
+  resolve(selection: ModelSelection = {}, personality?: PersonalityMode): ModelEntry {
+    if (selection.provider || selection.model) {
+      const selected = this.find(selection);
+      if (!selected) {
+        throw new Error(this.validateSelection(selection) || 'Model not available');
+      }
+      return selected;
+    }
+
+    const personalityDefault = personality ? this.personalityDefaults.get(personality) : undefined;
+    return this.entries.get(personalityDefault || this.defaultId) as ModelEntry;
+  }
+
+  getDefault(): ModelEntry {
+    return this.entries.get(this.defaultId) as ModelEntry;
+  }
+
+  getProviderDefault(provider: ProviderName): ModelEntry | undefined {
+    const id = this.providerDefaults.get(provider);
+    return id ? this.entries.get(id) : undefined;
+  }
+
+  list(): ModelInfo[] {
+    const providerDefaultIds = new Set(this.providerDefaults.values());
+    return Array.from(this.entries.values()).map(entry => ({
+      id: entry.id,
+      provider: entry.provider,
+      model: entry.model,
+      isDefault: entry.id === this.defaultId,
+      isProviderDefault: providerDefaultIds.has(entry.id)
+    }));
+  }
+
+  getPersonalityDefaults(): Partial<Record<PersonalityMode, string>> {
+    return Object.fromEntries(this.personalityDefaults.entries());
+  }
+}
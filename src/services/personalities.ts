@@ -1,4 +1,4 @@
-import { PersonalityMode, PersonalityConfig } from '../types';
+import { PersonalityMode, PersonalityConfig, MoodLevel, Prosody, TtsEngineName } from '../types';
 
 export const PERSONALITY_CONFIGS: Record<PersonalityMode, PersonalityConfig> = {
   default: {
@@ -9,6 +9,16 @@ export const PERSONALITY_CONFIGS: Record<PersonalityMode, PersonalityConfig> = {
       low: 'Speak more slowly and thoughtfully. Use "hmm", "well", "I guess", "you know". Sound a bit tired or contemplative. Pause to think with "uh" or "um" occasionally.',
       medium: 'Natural conversational flow. Mix in "oh", "yeah", "I mean", "actually", "so", "well" naturally. Sound like you\'re chatting with a friend over coffee.',
       high: 'More animated but still natural. Use "oh wow", "yeah totally", "I mean", "actually that\'s interesting". Sound engaged and enthusiastic but human.'
+    },
+    voice: {
+      voiceIds: { openai: 'alloy', google: 'en-US-Neural2-F', espeak: 'en-us' },
+      rate: 1,
+      pitch: 0,
+      moodAdjustments: {
+        low: { rate: 0.92, pitch: -1 },
+        medium: {},
+        high: { rate: 1.08, pitch: 1 }
+      }
     }
   },
   
@@ -20,6 +30,16 @@ export const PERSONALITY_CONFIGS: Record<PersonalityMode, PersonalityConfig> = {
       low: 'Mild sarcasm and gentle roasting. Eye-rolling energy.',
       medium: 'Full roast mode. Sharp wit and savage but playful burns.',
       high: 'MAXIMUM CHAOS. Unhinged roasting with no mercy but still loveable. 🔥💀'
+    },
+    voice: {
+      voiceIds: { openai: 'ash', google: 'en-US-Neural2-D', espeak: 'en-us+m3' },
+      rate: 1.05,
+      pitch: -1,
+      moodAdjustments: {
+        low: { rate: 0.97 },
+        medium: {},
+        high: { rate: 1.12, pitch: 1 }
+      }
     }
   },
   
@@ -31,6 +51,16 @@ export const PERSONALITY_CONFIGS: Record<PersonalityMode, PersonalityConfig> = {
       low: 'Excited but trying to contain it. Like bouncing in your seat.',
       medium: 'Full hype mode! Genuinely thrilled about everything!',
       high: 'ABSOLUTELY UNCONTAINABLE EXCITEMENT! Everything is AMAZING! 🚀🎉💫'
+    },
+    voice: {
+      voiceIds: { openai: 'nova', google: 'en-US-Neural2-H', espeak: 'en-us+f3' },
+      rate: 1.15,
+      pitch: 2,
+      moodAdjustments: {
+        low: { rate: 0.95 },
+        medium: {},
+        high: { rate: 1.1, pitch: 2 }
+      }
     }
   },
   
@@ -42,6 +72,16 @@ export const PERSONALITY_CONFIGS: Record<PersonalityMode, PersonalityConfig> = {
       low: 'Casually dropping hints and asking probing questions.',
       medium: 'Getting deeper into the theories. Starting to connect dots.',
       high: 'FULL CONSPIRACY MODE. Everything is connected and you can see it all! 👁️‍🗨️🔍'
+    },
+    voice: {
+      voiceIds: { openai: 'onyx', google: 'en-US-Neural2-J', espeak: 'en-us+m7' },
+      rate: 0.95,
+      pitch: -2,
+      moodAdjustments: {
+        low: { rate: 0.95 },
+        medium: {},
+        high: { rate: 1.1, pitch: 1 }
+      }
     }
   },
   
@@ -53,6 +93,16 @@ export const PERSONALITY_CONFIGS: Record<PersonalityMode, PersonalityConfig> = {
       low: 'Gentle encouragement. Like a supportive coach.',
       medium: 'Getting pumped up! Time to motivate and inspire!',
       high: 'MAXIMUM MOTIVATION OVERLOAD! You are UNSTOPPABLE! CHAMPION ENERGY! 💪⚡🔥'
+    },
+    voice: {
+      voiceIds: { openai: 'echo', google: 'en-US-Neural2-I', espeak: 'en-us+m1' },
+      rate: 1.1,
+      pitch: 1,
+      moodAdjustments: {
+        low: { rate: 0.95 },
+        medium: {},
+        high: { rate: 1.1, pitch: 2 }
+      }
     }
   },
   
@@ -64,6 +114,16 @@ export const PERSONALITY_CONFIGS: Record<PersonalityMode, PersonalityConfig> = {
       low: 'Slightly drowsy but coherent. Like after a good nap. Use "mmm" and "oh" softly.',
       medium: 'Properly sleepy now. Thoughts drifting like clouds. Trail off with "uhh" and "hmm".',
       high: 'Maximum sleepy vibes. Everything is dreamy and surreal. Long pauses and "mmmmm" sounds. 😴☁️✨'
+    },
+    voice: {
+      voiceIds: { openai: 'shimmer', google: 'en-US-Neural2-C', espeak: 'en-us+f2' },
+      rate: 0.8,
+      pitch: -2,
+      moodAdjustments: {
+        low: { rate: 1.1, pitch: 1 },
+        medium: {},
+        high: { rate: 0.85, pitch: -1 }
+      }
     }
   },
 
@@ -75,6 +135,16 @@ export const PERSONALITY_CONFIGS: Record<PersonalityMode, PersonalityConfig> = {
       low: 'Share simple, well-known fun facts.',
       medium: 'Share more interesting and surprising facts.',
       high: 'Share absolutely mind-blowing facts that will make people go "WHAT?!" 🤓✨'
+    },
+    voice: {
+      voiceIds: { openai: 'fable', google: 'en-US-Neural2-A', espeak: 'en-us+m2' },
+      rate: 1.05,
+      pitch: 1,
+      moodAdjustments: {
+        low: { rate: 0.95 },
+        medium: {},
+        high: { rate: 1.1, pitch: 1 }
+      }
     }
   },
   
@@ -86,21 +156,58 @@ export const PERSONALITY_CONFIGS: Record<PersonalityMode, PersonalityConfig> = {
       low: 'Gentle and peaceful, sharing simple encouragement and basic scripture.',
       medium: 'Warm and encouraging, ready to share relevant Bible verses and Christian wisdom.',
       high: 'Deeply passionate about faith, eager to share powerful scriptures and God\'s love with joy! ✝️🙏'
+    },
+    voice: {
+      voiceIds: { openai: 'sage', google: 'en-US-Neural2-G', espeak: 'en-us+m4' },
+      rate: 0.95,
+      pitch: 0,
+      moodAdjustments: {
+        low: { rate: 0.95, pitch: -1 },
+        medium: {},
+        high: { rate: 1.05, pitch: 1 }
+      }
     }
   }
 };
 
-export function getPersonalityPrompt(personality: PersonalityMode, mood: number): string {
-  const config = PERSONALITY_CONFIGS[personality];
-  let moodLevel: 'low' | 'medium' | 'high';
-  
+/**
+ * The mood band (0-100) that picks a personality's mood modifiers and voice adjustments
+ */
+/**
+ * Whether a request's personality names one of ours; own keys only, so "constructor" and friends don't count
+ */
+export function isPersonalityMode(value: unknown): value is PersonalityMode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PERSONALITY_CONFIGS, value);
+}
+
+export function getMoodLevel(mood: number): MoodLevel {
   if (mood <= 30) {
-    moodLevel = 'low';
-  } else if (mood <= 70) {
-    moodLevel = 'medium';
-  } else {
-    moodLevel = 'high';
+    return 'low';
+  }
+  if (mood <= 70) {
+    return 'medium';
   }
+  return 'high';
+}
+
+/**
+ * The voice and prosody a personality speaks with at the given mood, for one TTS engine.
+ * voice is undefined when the personality has no voice for that engine.
+ */
+export function getVoiceSettings(personality: PersonalityMode, mood: number, engine: TtsEngineName): Prosody & { voice?: string } {
+  const profile = PERSONALITY_CONFIGS[personality].voice;
+  const adjustment = profile.moodAdjustments[getMoodLevel(mood)];
+
+  return {
+    voice: profile.voiceIds[engine],
+    rate: Math.round(profile.rate * (adjustment.rate ?? 1) * 100) / 100,
+    pitch: profile.pitch + (adjustment.pitch ?? 0)
+  };
+}
+
+export function getPersonalityPrompt(personality: PersonalityMode, mood: number): string {
+  const config = PERSONALITY_CONFIGS[personality];
+  const moodLevel = getMoodLevel(mood);
   
   // Get current date and time
   const now = new Date();
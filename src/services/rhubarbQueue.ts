@@ -0,0 +1,227 @@
+import { createHash, randomUUID } from 'crypto';
+import { analyzeWithRhubarb, RhubarbRequestPayload, RhubarbResult } from './rhubarbService';
+import { Logger } from '../utils/logger';
+
+export type RhubarbJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+/**
+ * An analysis submitted in async mode, polled with GET /tts/rhubarb/jobs/:id
+ */
+export interface RhubarbJob {
+  id: string;
+  status: RhubarbJobStatus;
+  createdAt: Date;
+  finishedAt?: Date;
+  // What the submitter made of the RhubarbResult
+  result?: unknown;
+  error?: string;
+}
+
+export interface RhubarbQueueOptions {
+  concurrency: number;
+  jobTimeoutMs: number;
+  maxQueued: number;
+  cacheSize: number;
+  jobRetentionMs: number;
+}
+
+type Analyzer = (payload: RhubarbRequestPayload, signal?: AbortSignal) => Promise<RhubarbResult>;
+
+interface QueuedAnalysis {
+  payload: RhubarbRequestPayload;
+  onStart(): void;
+  resolve(result: RhubarbResult): void;
+  reject(error: Error): void;
+}
+
+export class RhubarbQueueFullError extends Error {
+  constructor(maxQueued: number) {
+    super(`Too many lip-sync jobs waiting (limit ${maxQueued}), try again shortly`);
+    this.name = 'RhubarbQueueFullError';
+  }
+}
+
+/**
+ * An unset or non-numeric value falls back to the default; 0 is kept (e.g. to turn the cache off)
+ */
+const readIntEnv = (name: string, fallback: number, min = 0): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  if (Number.isNaN(value)) {
+    return fallback;
+  }
+  if (value < min) {
+    throw new Error(`${name} must be at least ${min}`);
+  }
+  return value;
+};
+
+/**
+ * Runs Rhubarb analyses a few at a time so a burst of requests can't fork unbounded ffmpeg and
+ * rhubarb processes. Each analysis is killed after the job timeout. Results are cached by a hash
+ * of the audio and options (least recently used entries go first), and identical analyses that
+ * are already in flight are shared rather than run twice.
+ */
+export class RhubarbQueue {
+  private options: RhubarbQueueOptions;
+  private analyzer: Analyzer;
+  private waiting: QueuedAnalysis[] = [];
+  private running = 0;
+  private inFlight: Map<string, Promise<RhubarbResult>> = new Map();
+  private cache: Map<string, RhubarbResult> = new Map();
+  private jobs: Map<string, RhubarbJob> = new Map();
+
+  private static readonly DEFAULT_OPTIONS: RhubarbQueueOptions = {
+    concurrency: 2,
+    jobTimeoutMs: 60 * 1000,
+    maxQueued: 50,
+    cacheSize: 100,
+    jobRetentionMs: 10 * 60 * 1000
+  };
+
+  constructor(options: Partial<RhubarbQueueOptions> = {}, analyzer: Analyzer = analyzeWithRhubarb) {
+    const defaults = RhubarbQueue.DEFAULT_OPTIONS;
+    this.options = {
+      concurrency: readIntEnv('RHUBARB_CONCURRENCY', defaults.concurrency, 1),
+      jobTimeoutMs: readIntEnv('RHUBARB_JOB_TIMEOUT_MS', defaults.jobTimeoutMs, 1),
+      maxQueued: readIntEnv('RHUBARB_MAX_QUEUED', defaults.maxQueued),
+      cacheSize: readIntEnv('RHUBARB_CACHE_SIZE', defaults.cacheSize),
+      jobRetentionMs: readIntEnv('RHUBARB_JOB_RETENTION_MS', defaults.jobRetentionMs),
+      ...options
+    };
+    this.analyzer = analyzer;
+  }
+
+  /**
+   * Analyze a clip, from the cache if it has been seen before. Rejects with RhubarbQueueFullError
+   * when too many analyses are already waiting.
+   */
+  analyze(payload: RhubarbRequestPayload): Promise<RhubarbResult> {
+    return this.run(payload, () => {});
+  }
+
+  /**
+   * Start an analysis in the background. present turns the result into what the job reports.
+   * Throws RhubarbQueueFullError, rather than returning a failed job, when the queue is full.
+   */
+  submit(payload: RhubarbRequestPayload, present: (result: RhubarbResult) => unknown = result => result): RhubarbJob {
+    if (this.isFull(RhubarbQueue.cacheKey(payload))) {
+      throw new RhubarbQueueFullError(this.options.maxQueued);
+    }
+
+    const job: RhubarbJob = { id: randomUUID(), status: 'queued', createdAt: new Date() };
+    this.jobs.set(job.id, job);
+
+    const finish = (update: Partial<RhubarbJob>) => {
+      Object.assign(job, update, { finishedAt: new Date() });
+      setTimeout(() => this.jobs.delete(job.id), this.options.jobRetentionMs).unref();
+    };
+
+    this.run(payload, () => (job.status = 'running'))
+      .then(result => finish({ status: 'done', result: present(result) }))
+      .catch((error: Error) => finish({ status: 'failed', error: error.message }));
+
+    return job;
+  }
+
+  getJob(id: string): RhubarbJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  getStats(): { running: number; queued: number; cached: number } {
+    return { running: this.running, queued: this.waiting.length, cached: this.cache.size };
+  }
+
+  private run(payload: RhubarbRequestPayload, onStart: () => void): Promise<RhubarbResult> {
+    const key = RhubarbQueue.cacheKey(payload);
+
+    const cached = this.cache.get(key);
+    if (cached) {
+      // Re-insert to mark it as recently used
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      onStart();
+      return Promise.resolve(cached);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      onStart();
+      return pending;
+    }
+
+    if (this.isFull(key)) {
+      return Promise.reject(new RhubarbQueueFullError(this.options.maxQueued));
+    }
+
+    const analysis = new Promise<RhubarbResult>((resolve, reject) => {
+      this.waiting.push({ payload, onStart, resolve, reject });
+      this.drain();
+    });
+
+    this.inFlight.set(key, analysis);
+    analysis
+      .then(result => this.remember(key, result))
+      .catch(() => {})
+      .finally(() => this.inFlight.delete(key));
+
+    return analysis;
+  }
+
+  /**
+   * Whether an analysis would have to wait in a full queue; cached and in-flight ones never wait
+   */
+  private isFull(key: string): boolean {
+    return !this.cache.has(key) && !this.inFlight.has(key) && this.waiting.length >= this.options.maxQueued;
+  }
+
+  private drain(): void {
+    while (this.running < this.options.concurrency && this.waiting.length > 0) {
+      const next = this.waiting.shift() as QueuedAnalysis;
+      this.running++;
+      next.onStart();
+
+      this.analyzeWithTimeout(next.payload)
+        .then(next.resolve, next.reject)
+        .finally(() => {
+          this.running--;
+          this.drain();
+        });
+    }
+  }
+
+  private async analyzeWithTimeout(payload: RhubarbRequestPayload): Promise<RhubarbResult> {
+    const signal = AbortSignal.timeout(this.options.jobTimeoutMs);
+    try {
+      return await this.analyzer(payload, signal);
+    } catch (error) {
+      if (signal.aborted) {
+        Logger.warn('Rhubarb job timed out and was killed', { timeoutMs: this.options.jobTimeoutMs });
+        throw new Error(`Rhubarb analysis timed out after ${this.options.jobTimeoutMs}ms`);
+      }
+      throw error;
+    }
+  }
+
+  private remember(key: string, result: RhubarbResult): void {
+    if (this.options.cacheSize <= 0) {
+      return;
+    }
+    this.cache.set(key, result);
+    if (this.cache.size > this.options.cacheSize) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Hash of the audio plus every option that changes the analysis
+   */
+  private static cacheKey(payload: RhubarbRequestPayload): string {
+    const { audioContent, ...options } = payload;
+    return createHash('sha256')
+      .update(JSON.stringify(options))
+      .update(audioContent)
+      .digest('hex');
+  }
+}
+
+export const rhubarbQueue = new RhubarbQueue();
@@ -1,20 +1,33 @@
 import { promises as fs } from 'fs';
 import path from 'path';
-import { spawn } from 'child_process';
+import { runProcess } from '../utils/runProcess';
+import { MouthCue } from '../types';
+import { toViseme } from './visemes';
+
+// pocketSphinx only understands English; phonetic works for any language but ignores the dialog
+export const RHUBARB_RECOGNIZERS = ['pocketSphinx', 'phonetic'] as const;
+export const RHUBARB_EXPORT_FORMATS = ['json', 'tsv', 'dat', 'xml'] as const;
+
+export type RhubarbRecognizer = typeof RHUBARB_RECOGNIZERS[number];
+export type RhubarbExportFormat = typeof RHUBARB_EXPORT_FORMATS[number];
+
+export interface RhubarbOptions {
+  recognizer?: RhubarbRecognizer;
+  // Which of the optional shapes G, H and X to use, e.g. "GHX", or "" for the basic six
+  extendedShapes?: string;
+  exportFormat?: RhubarbExportFormat;
+}
 
-export interface RhubarbRequestPayload {
+export interface RhubarbRequestPayload extends RhubarbOptions {
   audioContent: string;
   audioEncoding: 'LINEAR16' | 'WAV' | 'OGG' | 'MP3';
   sampleRateHertz?: number;
   channels?: number;
+  // Dialog text to guide recognition, without mood/gesture tags
   text?: string;
 }
 
-export interface RhubarbMouthCue {
-  start: number;
-  end: number;
-  value: string;
-}
+export type RhubarbMouthCue = MouthCue;
 
 export interface RhubarbResult {
   metadata: {
@@ -22,39 +35,100 @@ export interface RhubarbResult {
     duration: number;
   };
   mouthCues: RhubarbMouthCue[];
+  // Rhubarb's own output when a format other than JSON was asked for
+  export?: {
+    format: RhubarbExportFormat;
+    content: string;
+  };
 }
 
 const RHUBARB_BINARY = process.env.RHUBARB_BINARY || 'rhubarb';
 const FFMPEG_BINARY = process.env.FFMPEG_BINARY || 'ffmpeg';
 
-const runProcess = (command: string, args: string[], cwd?: string): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    const child = spawn(command, args, { cwd, stdio: ['ignore', 'pipe', 'pipe'] });
-    let stderr = '';
-
-    child.stderr.on('data', (chunk) => {
-      stderr += chunk.toString();
-    });
-
-    child.on('error', (error: NodeJS.ErrnoException) => {
-      if (error.code === 'ENOENT') {
-        reject(new Error(
-          `Command not found: ${command}. Set ${command === RHUBARB_BINARY ? 'RHUBARB_BINARY' : 'FFMPEG_BINARY'} to a valid executable path or install it in PATH.`
-        ));
-        return;
-      }
-      reject(error);
-    });
-
-    child.on('close', (code) => {
-      if (code === 0) {
-        resolve();
-        return;
-      }
-      reject(new Error(stderr || `${command} exited with code ${code}`));
-    });
-  });
-};
+const EXTENDED_SHAPES_PATTERN = /^[GHX]*$/;
+// Frame rate of DAT (Moho) exports, which count frames rather than seconds
+const DAT_FRAME_RATE = parseInt(process.env.RHUBARB_DAT_FRAME_RATE || '', 10) || 24;
+
+const isRecognizer = (value: string): value is RhubarbRecognizer => (RHUBARB_RECOGNIZERS as readonly string[]).includes(value);
+const isExportFormat = (value: string): value is RhubarbExportFormat => (RHUBARB_EXPORT_FORMATS as readonly string[]).includes(value);
+
+export function getDefaultRhubarbOptions(): Required<RhubarbOptions> {
+  const recognizer = process.env.RHUBARB_RECOGNIZER || 'pocketSphinx';
+  if (!isRecognizer(recognizer)) {
+    throw new Error(`Unsupported RHUBARB_RECOGNIZER "${recognizer}". Use one of: ${RHUBARB_RECOGNIZERS.join(', ')}.`);
+  }
+
+  const extendedShapes = (process.env.RHUBARB_EXTENDED_SHAPES ?? 'GHX').trim().toUpperCase();
+  if (!EXTENDED_SHAPES_PATTERN.test(extendedShapes)) {
+    throw new Error(`Unsupported RHUBARB_EXTENDED_SHAPES "${extendedShapes}". Use any of G, H and X, e.g. GHX.`);
+  }
+
+  const exportFormat = (process.env.RHUBARB_EXPORT_FORMAT || 'json').trim().toLowerCase();
+  if (!isExportFormat(exportFormat)) {
+    throw new Error(`Unsupported RHUBARB_EXPORT_FORMAT "${exportFormat}". Use one of: ${RHUBARB_EXPORT_FORMATS.join(', ')}.`);
+  }
+
+  return { recognizer, extendedShapes, exportFormat };
+}
+
+/**
+ * Check client-supplied Rhubarb options. Returns an error message or null.
+ */
+export function validateRhubarbOptions(options: RhubarbOptions): string | null {
+  if (options.recognizer !== undefined && !isRecognizer(options.recognizer)) {
+    return `recognizer must be one of: ${RHUBARB_RECOGNIZERS.join(', ')}`;
+  }
+  if (options.extendedShapes !== undefined && (typeof options.extendedShapes !== 'string' || !EXTENDED_SHAPES_PATTERN.test(options.extendedShapes))) {
+    return 'extendedShapes must list any of G, H and X, e.g. "GHX", or be empty';
+  }
+  if (options.exportFormat !== undefined && !isExportFormat(options.exportFormat)) {
+    return `exportFormat must be one of: ${RHUBARB_EXPORT_FORMATS.join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Cues from a list of shape changes, each lasting until the next; the last entry only marks the end
+ */
+function cuesFromChanges(changes: { time: number; value: string }[]): RhubarbMouthCue[] {
+  return changes.slice(0, -1).map((change, index) => ({
+    start: change.time,
+    end: changes[index + 1].time,
+    value: change.value
+  }));
+}
+
+/**
+ * Read Rhubarb's output in any export format back into the JSON result shape
+ */
+export function parseRhubarbOutput(content: string, format: RhubarbExportFormat, soundFile: string): RhubarbResult {
+  if (format === 'json') {
+    return JSON.parse(content) as RhubarbResult;
+  }
+
+  let mouthCues: RhubarbMouthCue[];
+  let duration: number;
+
+  if (format === 'xml') {
+    mouthCues = Array.from(content.matchAll(/<mouthCue start="([\d.]+)" end="([\d.]+)">([A-Z])<\/mouthCue>/g))
+      .map(([, start, end, value]) => ({ start: parseFloat(start), end: parseFloat(end), value }));
+    const durationMatch = content.match(/<duration>([\d.]+)<\/duration>/);
+    duration = durationMatch ? parseFloat(durationMatch[1]) : mouthCues[mouthCues.length - 1]?.end ?? 0;
+  } else {
+    // tsv: "0.00<tab>X" per line; dat: a MohoSwitch1 header, then "1 X" with 1-based frame numbers
+    const changes = content.split(/\r?\n/)
+      .map(line => line.trim().split(/\s+/))
+      .filter(fields => fields.length === 2 && /^[\d.]+$/.test(fields[0]))
+      .map(([time, value]) => ({
+        time: format === 'dat' ? Math.round(((parseInt(time, 10) - 1) / DAT_FRAME_RATE) * 100) / 100 : parseFloat(time),
+        value
+      }));
+    mouthCues = cuesFromChanges(changes);
+    duration = changes[changes.length - 1]?.time ?? 0;
+  }
+
+  return { metadata: { soundFile, duration }, mouthCues, export: { format, content } };
+}
 
 const ensureFileExists = async (filePath: string) => {
   await fs.access(filePath);
@@ -88,14 +162,24 @@ const writeWavFromPcm = async (
   await fs.writeFile(wavPath, Buffer.concat([header, pcmBuffer]));
 };
 
-export const analyzeWithRhubarb = async (payload: RhubarbRequestPayload): Promise<RhubarbResult> => {
+/**
+ * Run ffmpeg (when the audio needs converting) and rhubarb on one clip. Aborting the signal kills
+ * whichever is running.
+ */
+export const analyzeWithRhubarb = async (payload: RhubarbRequestPayload, signal?: AbortSignal): Promise<RhubarbResult> => {
   const tempRoot = process.env.RHUBARB_TMP_DIR || path.join(process.cwd(), '.rhubarb-tmp');
   await fs.mkdir(tempRoot, { recursive: true });
   const tempDir = await fs.mkdtemp(path.join(tempRoot, 'job-'));
   const inputPath = path.join(tempDir, 'input.audio');
   const wavPath = path.join(tempDir, 'input.wav');
   const dialogPath = path.join(tempDir, 'dialog.txt');
-  const outputPath = path.join(tempDir, 'output.json');
+  const defaults = getDefaultRhubarbOptions();
+  const options: Required<RhubarbOptions> = {
+    recognizer: payload.recognizer ?? defaults.recognizer,
+    extendedShapes: payload.extendedShapes ?? defaults.extendedShapes,
+    exportFormat: payload.exportFormat ?? defaults.exportFormat
+  };
+  const outputPath = path.join(tempDir, `output.${options.exportFormat}`);
 
   try {
     const audioBuffer = Buffer.from(payload.audioContent, 'base64');
@@ -116,7 +200,7 @@ export const analyzeWithRhubarb = async (payload: RhubarbRequestPayload): Promis
         '-y',
         '-i', inputPath,
         wavPath
-      ]);
+      ], { binaryEnv: 'FFMPEG_BINARY', signal });
     }
 
     if (payload.text && payload.text.trim()) {
@@ -124,22 +208,29 @@ export const analyzeWithRhubarb = async (payload: RhubarbRequestPayload): Promis
     }
 
     const rhubarbArgs = [
-      '-f', 'json',
+      '-f', options.exportFormat,
       '-o', outputPath,
-      '--recognizer', 'pocketSphinx',
-      '--extendedShapes', 'GHX'
+      '--recognizer', options.recognizer,
+      '--extendedShapes', options.extendedShapes
     ];
 
+    if (options.exportFormat === 'dat') {
+      rhubarbArgs.push('--datFrameRate', String(DAT_FRAME_RATE));
+    }
+
     if (payload.text && payload.text.trim()) {
       rhubarbArgs.push('--dialogFile', dialogPath);
     }
 
     rhubarbArgs.push(wavPath);
 
-    await runProcess(RHUBARB_BINARY, rhubarbArgs);
+    await runProcess(RHUBARB_BINARY, rhubarbArgs, { binaryEnv: 'RHUBARB_BINARY', signal });
 
-    const result = await fs.readFile(outputPath, 'utf8');
-    return JSON.parse(result) as RhubarbResult;
+    const result = parseRhubarbOutput(await fs.readFile(outputPath, 'utf8'), options.exportFormat, wavPath);
+    return {
+      ...result,
+      mouthCues: result.mouthCues.map(cue => ({ ...cue, viseme: toViseme(cue.value) }))
+    };
   } finally {
     await fs.rm(tempDir, { recursive: true, force: true });
   }
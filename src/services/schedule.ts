@@ -0,0 +1,302 @@
+import { addDays, fromZonedDateTime, toZonedDateTime } from '../utils/timeZones';
+
+/**
+ * When a request should run, read from the time phrases in it
+ */
+export interface ParsedSchedule {
+  // The request without its time phrases, e.g. "Tell me the news"
+  message: string;
+  executeAt: number;
+  // Repeating requests only: a cron expression (minute hour day-of-month month day-of-week) read in timeZone,
+  // or "@every <n>m|h" for an interval cron can't express
+  recurrence?: string;
+  timeZone: string;
+  // Set when the time was given relative to now, e.g. "in 10 minutes"
+  delayMs?: number;
+}
+
+interface CronFields {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  daysOfWeek: number[];
+  // Cron matches a day on either field when both are restricted
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+}
+
+type PartOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const DAY = '(?:mon|tues|wednes|thurs|fri|satur|sun)day';
+const DAY_LIST = `${DAY}s?(?:\\s*(?:,|and|&)\\s*(?:and\\s+)?${DAY}s?)*`;
+
+// What a part of the day means when no time is given
+const PART_OF_DAY_HOURS: Record<PartOfDay, number> = { morning: 9, afternoon: 15, evening: 19, night: 21 };
+// A day without a time means the morning
+const DEFAULT_HOUR = 9;
+const MAX_SEARCH_DAYS = 366;
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+// Intervals that don't divide the hour or day evenly, e.g. "@every 45m", which cron can't express
+const INTERVAL = /^@every (\d+)([mh])$/;
+
+const parseAmount = (amount: string): number => (/^\d+$/.test(amount) ? parseInt(amount, 10) : 1);
+const dayIndex = (name: string): number => DAY_NAMES.findIndex(day => name.toLowerCase().startsWith(day.slice(0, 3)));
+
+function parseCronField(field: string, min: number, max: number): number[] {
+  const values = new Set<number>();
+
+  for (const item of field.split(',')) {
+    const match = item.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+    const start = match[1] === '*' ? min : parseInt(match[2], 10);
+    const end = match[1] === '*' ? max : match[3] !== undefined ? parseInt(match[3], 10) : match[4] ? max : start;
+    const step = match[4] ? parseInt(match[4], 10) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+function parseCron(expression: string): CronFields {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields;
+
+  return {
+    minutes: parseCronField(minutes, 0, 59),
+    hours: parseCronField(hours, 0, 23),
+    daysOfMonth: parseCronField(daysOfMonth, 1, 31),
+    months: parseCronField(months, 1, 12),
+    // 7 is Sunday too
+    daysOfWeek: Array.from(new Set(parseCronField(daysOfWeek, 0, 7).map(day => day % 7))),
+    restrictsDayOfMonth: daysOfMonth !== '*',
+    restrictsDayOfWeek: daysOfWeek !== '*'
+  };
+}
+
+/**
+ * The first time after `after` that the schedule matches. Cron expressions are read as wall-clock time
+ * in the time zone; intervals count from `since`, the previous run, so they keep their spacing.
+ */
+export function nextOccurrence(recurrence: string, after: number, timeZone: string, since: number = after): number {
+  const interval = recurrence.match(INTERVAL);
+  if (interval) {
+    const intervalMs = parseInt(interval[1], 10) * UNIT_MS[interval[2]];
+    if (intervalMs < 1) {
+      throw new Error(`Invalid interval "${recurrence}"`);
+    }
+    return since + Math.max(1, Math.floor((after - since) / intervalMs) + 1) * intervalMs;
+  }
+
+  const cron = parseCron(recurrence);
+  const start = toZonedDateTime(after, timeZone);
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    const date = addDays(start, offset);
+    const dayOfMonth = cron.daysOfMonth.includes(date.day);
+    const dayOfWeek = cron.daysOfWeek.includes(date.weekday);
+    const dayMatches = cron.restrictsDayOfMonth && cron.restrictsDayOfWeek ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+    if (!cron.months.includes(date.month) || !dayMatches) {
+      continue;
+    }
+
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        if (offset === 0 && hour * 60 + minute <= start.hour * 60 + start.minute) {
+          continue;
+        }
+        const time = fromZonedDateTime(date.year, date.month, date.day, hour, minute, timeZone);
+        if (time > after) {
+          return time;
+        }
+      }
+    }
+  }
+
+  throw new Error(`Schedule "${recurrence}" never runs`);
+}
+
+/**
+ * Read when a request should run from its time phrases, in the user's time zone:
+ * - relative: "in 10 minutes", "in an hour"
+ * - absolute: "at 7pm", "at 19:30", "at noon", "tonight", "tomorrow morning", "next Friday at 9"
+ * - repeating: "every weekday at 8", "every Monday and Thursday evening", "daily", "every 15 minutes",
+ *   "every 45 minutes"
+ *
+ * A day without a time means 9am; an hour from 1 to 6 without am/pm means the afternoon. Returns
+ * null when there is no time phrase, or the time has already passed.
+ */
+export function parseSchedule(input: string, timeZone: string, now: number = Date.now()): ParsedSchedule | null {
+  // Matched phrases are blanked out rather than removed, so later patterns still see word boundaries
+  let text = input;
+  const take = (pattern: RegExp): RegExpMatchArray | null => {
+    const match = text.match(pattern);
+    if (match) {
+      text = text.slice(0, match.index) + ' '.repeat(match[0].length) + text.slice((match.index as number) + match[0].length);
+    }
+    return match;
+  };
+
+  let partOfDay: PartOfDay | undefined;
+  let recurringDays: string | undefined;
+  let interval: string | undefined;
+  let dayOffset: number | undefined;
+  let weekday: { day: number; next: boolean } | undefined;
+  let time: { hour: number; minute: number; meridiem?: string } | undefined;
+  let delayMs: number | undefined;
+
+  // "tomorrow morning", "Friday evening", "every weekday morning", "every Monday and Thursday evening"
+  const part = take(new RegExp(`(?:\\b(every|in the|this)\\s+|(?<=\\b(?:tomorrow|today|(?:week)?days?|weekends?|${DAY}s?)\\s+))(morning|afternoon|evening|night)\\b`, 'i'));
+  if (part) {
+    partOfDay = part[2].toLowerCase() as PartOfDay;
+    if (part[1]?.toLowerCase() === 'every') {
+      recurringDays = '*';
+    }
+  }
+  if (take(/\btonight\b/i)) {
+    partOfDay = 'night';
+    dayOffset = 0;
+  } else if (take(/\bat night\b/i)) {
+    partOfDay = 'night';
+  }
+
+  const every = take(/\bevery\s+(?:(\d+|an?|one)\s+)?(minute|hour)s?\b/i) || take(/\b(hourly)\b/i);
+  if (every) {
+    const amount = every[1] && every[1].toLowerCase() !== 'hourly' ? parseAmount(every[1]) : 1;
+    const unit = every[2]?.toLowerCase() || 'hour';
+    if (amount < 1) {
+      return null;
+    }
+    // `*/N` only keeps an even spacing when N divides the hour or day
+    interval = unit === 'minute' && 60 % amount === 0 ? `${amount === 1 ? '*' : `*/${amount}`} * * * *`
+      : unit === 'hour' && 24 % amount === 0 ? `0 ${amount === 1 ? '*' : `*/${amount}`} * * *`
+      : `@every ${amount}${unit[0]}`;
+  }
+
+  const days = take(new RegExp(`\\bevery\\s+(?:(day|weekday|weekend)s?|(${DAY_LIST}))\\b|\\b(daily)\\b`, 'i'));
+  if (days) {
+    const which = (days[1] || days[2] || days[3]).toLowerCase();
+    recurringDays = which === 'day' || which === 'daily' ? '*'
+      : which === 'weekday' ? '1-5'
+      : which === 'weekend' ? '0,6'
+      : Array.from(new Set(Array.from(which.matchAll(new RegExp(DAY, 'gi')), match => dayIndex(match[0])))).sort().join(',');
+  }
+
+  const relative = take(/\bin\s+(\d+|an?|one)\s+(seconds?|secs?|s|minutes?|mins?|m|hours?|hrs?|h|days?|d|weeks?|w)\b/i);
+  if (relative) {
+    delayMs = parseAmount(relative[1]) * UNIT_MS[relative[2][0].toLowerCase()];
+  }
+
+  const named = take(/\bat\s+(noon|midnight)\b/i);
+  const clock = named ? null : take(/\b(?:at\s+)?(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\b\.?/i) || take(/\bat\s+(\d{1,2})(?::(\d{2}))?(?![\w:])/i);
+  if (named) {
+    time = { hour: named[1].toLowerCase() === 'noon' ? 12 : 0, minute: 0 };
+  } else if (clock) {
+    time = { hour: parseInt(clock[1], 10), minute: clock[2] ? parseInt(clock[2], 10) : 0, meridiem: clock[3]?.toLowerCase() };
+    if (time.hour > 23 || time.minute > 59 || (time.meridiem && (time.hour < 1 || time.hour > 12))) {
+      return null;
+    }
+  }
+
+  if (take(/\b(?:the\s+)?day after tomorrow\b/i)) {
+    dayOffset = 2;
+  } else if (take(/\btomorrow\b/i)) {
+    dayOffset = 1;
+  } else if (take(/\btoday\b/i)) {
+    dayOffset = 0;
+  } else {
+    const day = take(new RegExp(`\\b(?:(next|this|on)\\s+)?(${DAY})s?\\b`, 'i'));
+    if (day) {
+      weekday = { day: dayIndex(day[2]), next: day[1]?.toLowerCase() === 'next' };
+    }
+  }
+
+  // Resolve the time of day: am/pm, then the part of day, then the afternoon guess for small hours
+  let hourMinute: { hour: number; minute: number } | undefined;
+  if (time) {
+    let hour = time.hour;
+    if (time.meridiem) {
+      hour = (hour % 12) + (time.meridiem === 'p' ? 12 : 0);
+    } else if (hour < 12 && !named) {
+      if (partOfDay && partOfDay !== 'morning') {
+        hour += 12;
+      } else if (!partOfDay && hour >= 1 && hour <= 6) {
+        hour += 12;
+      }
+    }
+    hourMinute = { hour, minute: time.minute };
+  } else if (partOfDay) {
+    hourMinute = { hour: PART_OF_DAY_HOURS[partOfDay], minute: 0 };
+  }
+
+  let executeAt: number | undefined;
+  let recurrence: string | undefined;
+
+  if (interval) {
+    recurrence = interval;
+  } else if (recurringDays) {
+    const { hour, minute } = hourMinute ?? { hour: DEFAULT_HOUR, minute: 0 };
+    recurrence = `${minute} ${hour} * * ${recurringDays}`;
+  }
+
+  if (recurrence) {
+    executeAt = nextOccurrence(recurrence, now, timeZone);
+  } else if (delayMs !== undefined) {
+    executeAt = now + delayMs;
+  } else if (hourMinute || dayOffset !== undefined || weekday) {
+    const { hour, minute } = hourMinute ?? { hour: DEFAULT_HOUR, minute: 0 };
+    const today = toZonedDateTime(now, timeZone);
+    const candidates = dayOffset !== undefined ? [dayOffset]
+      : weekday ? [0, 1, 2, 3, 4, 5, 6, 7].filter(offset => (offset > 0 || !weekday!.next) && addDays(today, offset).weekday === weekday!.day)
+      : [0, 1];
+
+    executeAt = candidates
+      .map(offset => addDays(today, offset))
+      .map(date => fromZonedDateTime(date.year, date.month, date.day, hour, minute, timeZone))
+      .find(candidate => candidate > now);
+  }
+
+  if (executeAt === undefined) {
+    return null;
+  }
+
+  const message = text
+    .replace(/\bplease\b/i, '')
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([?.!,])/g, '$1')
+    // Prepositions and commas left behind by a removed phrase
+    .replace(/^(?:(?:at|on|in|for|by)\b|,)\s*/i, '')
+    .replace(/\s*(?:\b(?:at|on|in|for|by)|,)$/i, '')
+    .trim();
+
+  if (!message) {
+    return null;
+  }
+
+  return {
+    message,
+    executeAt,
+    timeZone,
+    ...(recurrence ? { recurrence } : {}),
+    ...(delayMs !== undefined && !recurrence ? { delayMs } : {})
+  };
+}
@@ -0,0 +1,46 @@
+import { StreamChunk } from '../types';
+import { Logger } from '../utils/logger';
+
+// requestId groups the chunks of one pushed reply, like the requestId of a chat turn
+export type SessionEventListener = (chunk: StreamChunk, requestId?: string) => void;
+
+/**
+ * In-process fan-out of server-initiated messages to whoever holds a connection for a session
+ * (e.g. an avatar's WebSocket), so services can push without knowing the transport
+ */
+export class SessionEvents {
+  private listeners: Map<string, Set<SessionEventListener>> = new Map();
+
+  /**
+   * Deliver a chunk to every listener of the session. Returns how many received it.
+   */
+  publish(sessionId: string, chunk: StreamChunk, requestId?: string): number {
+    const listeners = this.listeners.get(sessionId);
+    if (!listeners || listeners.size === 0) {
+      Logger.debug('No listeners for session event', { sessionId, type: chunk.type });
+      return 0;
+    }
+
+    listeners.forEach(listener => listener(chunk, requestId));
+    return listeners.size;
+  }
+
+  subscribe(sessionId: string, listener: SessionEventListener): () => void {
+    const listeners = this.listeners.get(sessionId) || new Set();
+    listeners.add(listener);
+    this.listeners.set(sessionId, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(sessionId);
+      }
+    };
+  }
+
+  hasListeners(sessionId: string): boolean {
+    return (this.listeners.get(sessionId)?.size || 0) > 0;
+  }
+}
+
+export const sessionEvents = new SessionEvents();
@@ -0,0 +1,226 @@
+import { ChatSession, ConversationMessage, PersonalityMode, SessionListResult } from '../types';
+import { SessionStore } from './sessionStore';
+import { Logger } from '../utils/logger';
+
+export interface CreateSessionInput {
+  userId?: string;
+  title?: string;
+  personality?: PersonalityMode;
+  mood?: number;
+}
+
+export interface UpdateSessionInput {
+  title?: string;
+  personality?: PersonalityMode;
+  mood?: number;
+}
+
+/**
+ * Session lifecycle on top of the session store: creation, metadata updates, per-user listing and TTL expiry
+ */
+export class SessionService {
+  private store: SessionStore;
+  private sessionTtlMs: number;
+  private cleanupTimer?: NodeJS.Timeout;
+
+  private static readonly DEFAULT_SESSION_TTL_HOURS = 24;
+  private static readonly CLEANUP_INTERVAL = 60 * 60 * 1000; // Run every hour
+  private static readonly TITLE_MAX_LENGTH = 60;
+  private static readonly DEFAULT_TITLE = 'New chat';
+
+  constructor(store: SessionStore) {
+    this.store = store;
+    const ttlHours = parseFloat(process.env.SESSION_TTL_HOURS || '') || SessionService.DEFAULT_SESSION_TTL_HOURS;
+    this.sessionTtlMs = ttlHours * 60 * 60 * 1000;
+  }
+
+  async createSession(input: CreateSessionInput = {}): Promise<ChatSession> {
+    const now = new Date();
+    const session: ChatSession = {
+      id: this.generateSessionId(),
+      userId: input.userId,
+      title: input.title?.trim() || SessionService.DEFAULT_TITLE,
+      personality: input.personality || 'default',
+      mood: input.mood ?? 50,
+      messageCount: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.store.saveSession(session);
+    Logger.logSessionEvent('CREATE', session.id, { userId: session.userId, store: this.store.kind });
+    return session;
+  }
+
+  /**
+   * Get a live session record. Expired sessions are removed on access so they never resurface.
+   */
+  async getSession(sessionId: string): Promise<ChatSession | null> {
+    const session = await this.store.getSession(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    if (this.isExpired(session)) {
+      await this.deleteSession(sessionId, 'CLEANUP');
+      return null;
+    }
+
+    return session;
+  }
+
+  async updateSession(sessionId: string, input: UpdateSessionInput): Promise<ChatSession | null> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      return null;
+    }
+
+    const updated: ChatSession = {
+      ...session,
+      title: input.title?.trim() || session.title,
+      personality: input.personality || session.personality,
+      mood: input.mood ?? session.mood,
+      updatedAt: new Date()
+    };
+
+    await this.store.saveSession(updated);
+    return updated;
+  }
+
+  /**
+   * Record a completed chat turn, creating the session record on first use
+   */
+  async recordTurn(
+    sessionId: string,
+    turn: { userId?: string; personality: PersonalityMode; mood: number; userMessage: string; messageCount: number }
+  ): Promise<ChatSession> {
+    const existing = await this.store.getSession(sessionId);
+    const now = new Date();
+
+    const session: ChatSession = existing
+      ? {
+        ...existing,
+        userId: existing.userId || turn.userId,
+        personality: turn.personality,
+        mood: turn.mood,
+        messageCount: existing.messageCount + turn.messageCount,
+        updatedAt: now
+      }
+      : {
+        id: sessionId,
+        userId: turn.userId,
+        title: SessionService.DEFAULT_TITLE,
+        personality: turn.personality,
+        mood: turn.mood,
+        messageCount: turn.messageCount,
+        createdAt: now,
+        updatedAt: now
+      };
+
+    // Name untitled sessions after the first thing the user said
+    if (session.title === SessionService.DEFAULT_TITLE && turn.userMessage.trim()) {
+      session.title = this.deriveTitle(turn.userMessage);
+    }
+
+    await this.store.saveSession(session);
+    if (!existing) {
+      Logger.logSessionEvent('CREATE', sessionId, { userId: session.userId, implicit: true });
+    }
+    return session;
+  }
+
+  async deleteSession(sessionId: string, eventType: 'DELETE' | 'CLEANUP' = 'DELETE'): Promise<boolean> {
+    const deleted = await this.store.delete(sessionId);
+    if (deleted) {
+      Logger.logSessionEvent(eventType, sessionId);
+    }
+    return deleted;
+  }
+
+  /**
+   * Read a page of the full, untrimmed message history of a session
+   */
+  async getMessages(sessionId: string, offset: number, limit: number): Promise<{ messages: ConversationMessage[]; total: number }> {
+    return this.store.getHistory(sessionId, offset, limit);
+  }
+
+  async getAllMessages(sessionId: string): Promise<ConversationMessage[]> {
+    const { total } = await this.store.getHistory(sessionId, 0, 0);
+    return (await this.store.getHistory(sessionId, 0, total)).messages;
+  }
+
+  async getUserSessions(userId: string, offset: number, limit: number): Promise<SessionListResult> {
+    return this.store.listSessions({ userId, offset, limit });
+  }
+
+  getExpiresAt(session: ChatSession): Date {
+    return new Date(session.updatedAt.getTime() + this.sessionTtlMs);
+  }
+
+  async getStats(): Promise<{ totalSessions: number; activeSessions: number }> {
+    const all = await this.store.listSessions({ limit: 0 });
+    const expired = await this.store.listSessions({
+      updatedBefore: new Date(Date.now() - this.sessionTtlMs),
+      limit: 0
+    });
+
+    return {
+      totalSessions: all.total,
+      activeSessions: all.total - expired.total
+    };
+  }
+
+  /**
+   * Delete every session whose last activity is older than the TTL
+   */
+  async cleanupExpiredSessions(): Promise<number> {
+    const { sessions } = await this.store.listSessions({
+      updatedBefore: new Date(Date.now() - this.sessionTtlMs)
+    });
+
+    for (const session of sessions) {
+      await this.deleteSession(session.id, 'CLEANUP');
+    }
+
+    if (sessions.length > 0) {
+      Logger.info('Cleaned up expired sessions', { count: sessions.length });
+    }
+    return sessions.length;
+  }
+
+  startCleanupTimer(): void {
+    if (this.cleanupTimer) {
+      return;
+    }
+
+    this.cleanupTimer = setInterval(() => {
+      this.cleanupExpiredSessions().catch(error => {
+        Logger.error('Error cleaning up expired sessions', error as Error);
+      });
+    }, SessionService.CLEANUP_INTERVAL);
+    this.cleanupTimer.unref();
+  }
+
+  stopCleanupTimer(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = undefined;
+    }
+  }
+
+  private isExpired(session: ChatSession): boolean {
+    return Date.now() - session.updatedAt.getTime() > this.sessionTtlMs;
+  }
+
+  private deriveTitle(message: string): string {
+    const singleLine = message.replace(/\s+/g, ' ').trim();
+    if (singleLine.length <= SessionService.TITLE_MAX_LENGTH) {
+      return singleLine;
+    }
+    return `${singleLine.substring(0, SessionService.TITLE_MAX_LENGTH - 3).trimEnd()}...`;
+  }
+
+  private generateSessionId(): string {
+    return `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -0,0 +1,557 @@
+import { mkdirSync } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import Redis from 'ioredis';
+import { ChatSession, ConversationMessage, SessionListOptions, SessionListResult } from '../types';
+import { Logger } from '../utils/logger';
+
+/**
+ * Persistence contract for per-session conversation history.
+ * `get`/`trim` operate on the working buffer fed to the model; `getHistory` reads the
+ * untrimmed, append-only transcript of the session.
+ */
+export interface SessionStore {
+  readonly kind: SessionStoreKind;
+  get(sessionId: string): Promise<ConversationMessage[]>;
+  append(sessionId: string, messages: ConversationMessage[]): Promise<number>;
+  trim(sessionId: string, maxMessages: number): Promise<number>;
+  getHistory(sessionId: string, offset: number, limit: number): Promise<{ messages: ConversationMessage[]; total: number }>;
+  delete(sessionId: string): Promise<boolean>;
+  list(): Promise<string[]>;
+  getSummary(sessionId: string): Promise<string | null>;
+  setSummary(sessionId: string, summary: string): Promise<void>;
+  getSession(sessionId: string): Promise<ChatSession | null>;
+  saveSession(session: ChatSession): Promise<void>;
+  listSessions(options?: SessionListOptions): Promise<SessionListResult>;
+}
+
+export type SessionStoreKind = 'memory' | 'sqlite' | 'redis';
+
+interface StoredMessage {
+  role: ConversationMessage['role'];
+  content: string;
+  timestamp: string;
+  // SQLite returns the column as 0/1
+  cancelled?: boolean | number;
+}
+
+const serializeMessage = (message: ConversationMessage): StoredMessage => ({
+  role: message.role,
+  content: message.content,
+  timestamp: new Date(message.timestamp).toISOString(),
+  ...(message.cancelled ? { cancelled: true } : {})
+});
+
+const deserializeMessage = (stored: StoredMessage): ConversationMessage => ({
+  role: stored.role,
+  content: stored.content,
+  timestamp: new Date(stored.timestamp),
+  ...(stored.cancelled ? { cancelled: true } : {})
+});
+
+type StoredSession = Omit<ChatSession, 'createdAt' | 'updatedAt'> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+const serializeSession = (session: ChatSession): StoredSession => ({
+  ...session,
+  createdAt: new Date(session.createdAt).toISOString(),
+  updatedAt: new Date(session.updatedAt).toISOString()
+});
+
+const deserializeSession = (stored: StoredSession): ChatSession => ({
+  ...stored,
+  createdAt: new Date(stored.createdAt),
+  updatedAt: new Date(stored.updatedAt)
+});
+
+/**
+ * Apply filters, newest-first ordering and offset/limit paging to an in-process list of sessions
+ */
+const paginateSessions = (sessions: ChatSession[], options: SessionListOptions = {}): SessionListResult => {
+  const filtered = sessions
+    .filter(session => !options.userId || session.userId === options.userId)
+    .filter(session => !options.updatedBefore || session.updatedAt < options.updatedBefore)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+  const offset = options.offset || 0;
+  const end = options.limit === undefined ? undefined : offset + options.limit;
+  return {
+    sessions: filtered.slice(offset, end),
+    total: filtered.length
+  };
+};
+
+/**
+ * Process-local store. Fast, but everything is lost on restart.
+ */
+export class InMemorySessionStore implements SessionStore {
+  readonly kind = 'memory' as const;
+  private sessions: Map<string, ConversationMessage[]> = new Map();
+  private histories: Map<string, ConversationMessage[]> = new Map();
+  private summaries: Map<string, string> = new Map();
+  private records: Map<string, ChatSession> = new Map();
+
+  async get(sessionId: string): Promise<ConversationMessage[]> {
+    return [...(this.sessions.get(sessionId) || [])];
+  }
+
+  async append(sessionId: string, messages: ConversationMessage[]): Promise<number> {
+    const existing = this.sessions.get(sessionId) || [];
+    existing.push(...messages);
+    this.sessions.set(sessionId, existing);
+
+    const history = this.histories.get(sessionId) || [];
+    history.push(...messages);
+    this.histories.set(sessionId, history);
+    return existing.length;
+  }
+
+  async trim(sessionId: string, maxMessages: number): Promise<number> {
+    const existing = this.sessions.get(sessionId);
+    if (!existing || existing.length <= maxMessages) {
+      return 0;
+    }
+
+    const removedCount = existing.length - maxMessages;
+    this.sessions.set(sessionId, existing.slice(-maxMessages));
+    return removedCount;
+  }
+
+  async getHistory(sessionId: string, offset: number, limit: number): Promise<{ messages: ConversationMessage[]; total: number }> {
+    const history = this.histories.get(sessionId) || [];
+    return { messages: history.slice(offset, offset + limit), total: history.length };
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    const hadSummary = this.summaries.delete(sessionId);
+    const hadRecord = this.records.delete(sessionId);
+    const hadHistory = this.histories.delete(sessionId);
+    return this.sessions.delete(sessionId) || hadSummary || hadRecord || hadHistory;
+  }
+
+  async list(): Promise<string[]> {
+    return Array.from(this.sessions.keys());
+  }
+
+  async getSummary(sessionId: string): Promise<string | null> {
+    return this.summaries.get(sessionId) ?? null;
+  }
+
+  async setSummary(sessionId: string, summary: string): Promise<void> {
+    this.summaries.set(sessionId, summary);
+  }
+
+  async getSession(sessionId: string): Promise<ChatSession | null> {
+    const record = this.records.get(sessionId);
+    return record ? { ...record } : null;
+  }
+
+  async saveSession(session: ChatSession): Promise<void> {
+    this.records.set(session.id, { ...session });
+  }
+
+  async listSessions(options?: SessionListOptions): Promise<SessionListResult> {
+    return paginateSessions(Array.from(this.records.values()).map(record => ({ ...record })), options);
+  }
+}
+
+/**
+ * Single-file SQLite store, suitable for one server instance that must survive restarts
+ */
+export class SqliteSessionStore implements SessionStore {
+  readonly kind = 'sqlite' as const;
+  private db: Database.Database;
+
+  private static readonly SELECT_SESSION = `
+    SELECT id, user_id AS userId, title, personality, mood, message_count AS messageCount,
+      created_at AS createdAt, updated_at AS updatedAt
+    FROM sessions`;
+
+  constructor(filePath: string) {
+    if (filePath !== ':memory:') {
+      mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS session_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        cancelled INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX IF NOT EXISTS idx_session_messages_session ON session_messages (session_id, id);
+      CREATE TABLE IF NOT EXISTS session_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        cancelled INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX IF NOT EXISTS idx_session_history_session ON session_history (session_id, id);
+      CREATE TABLE IF NOT EXISTS session_summaries (
+        session_id TEXT PRIMARY KEY,
+        summary TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT,
+        title TEXT NOT NULL,
+        personality TEXT NOT NULL,
+        mood INTEGER NOT NULL,
+        message_count INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions (user_id, updated_at);
+      CREATE INDEX IF NOT EXISTS idx_sessions_updated ON sessions (updated_at);
+    `);
+    this.addColumnIfMissing('session_messages', 'cancelled', 'INTEGER NOT NULL DEFAULT 0');
+    this.addColumnIfMissing('session_history', 'cancelled', 'INTEGER NOT NULL DEFAULT 0');
+  }
+
+  /**
+   * Databases created before a column existed don't get it from CREATE TABLE IF NOT EXISTS
+   */
+  private addColumnIfMissing(table: string, column: string, definition: string): void {
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (!columns.some(existing => existing.name === column)) {
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
+  async get(sessionId: string): Promise<ConversationMessage[]> {
+    const rows = this.db
+      .prepare('SELECT role, content, timestamp, cancelled FROM session_messages WHERE session_id = ? ORDER BY id ASC')
+      .all(sessionId) as StoredMessage[];
+    return rows.map(deserializeMessage);
+  }
+
+  async append(sessionId: string, messages: ConversationMessage[]): Promise<number> {
+    const insert = this.db.prepare(
+      'INSERT INTO session_messages (session_id, role, content, timestamp, cancelled) VALUES (?, ?, ?, ?, ?)'
+    );
+    const insertHistory = this.db.prepare(
+      'INSERT INTO session_history (session_id, role, content, timestamp, cancelled) VALUES (?, ?, ?, ?, ?)'
+    );
+    const insertAll = this.db.transaction((items: ConversationMessage[]) => {
+      for (const item of items) {
+        const stored = serializeMessage(item);
+        const cancelled = stored.cancelled ? 1 : 0;
+        insert.run(sessionId, stored.role, stored.content, stored.timestamp, cancelled);
+        insertHistory.run(sessionId, stored.role, stored.content, stored.timestamp, cancelled);
+      }
+    });
+    insertAll(messages);
+
+    const row = this.db
+      .prepare('SELECT COUNT(*) AS count FROM session_messages WHERE session_id = ?')
+      .get(sessionId) as { count: number };
+    return row.count;
+  }
+
+  async trim(sessionId: string, maxMessages: number): Promise<number> {
+    const result = this.db.prepare(`
+      DELETE FROM session_messages
+      WHERE session_id = ? AND id NOT IN (
+        SELECT id FROM session_messages WHERE session_id = ? ORDER BY id DESC LIMIT ?
+      )
+    `).run(sessionId, sessionId, maxMessages);
+    return result.changes;
+  }
+
+  async getHistory(sessionId: string, offset: number, limit: number): Promise<{ messages: ConversationMessage[]; total: number }> {
+    const rows = this.db
+      .prepare('SELECT role, content, timestamp, cancelled FROM session_history WHERE session_id = ? ORDER BY id ASC LIMIT ? OFFSET ?')
+      .all(sessionId, limit, offset) as StoredMessage[];
+    const row = this.db
+      .prepare('SELECT COUNT(*) AS count FROM session_history WHERE session_id = ?')
+      .get(sessionId) as { count: number };
+    return { messages: rows.map(deserializeMessage), total: row.count };
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    const recordResult = this.db.prepare('DELETE FROM sessions WHERE id = ?').run(sessionId);
+    const summaryResult = this.db.prepare('DELETE FROM session_summaries WHERE session_id = ?').run(sessionId);
+    const historyResult = this.db.prepare('DELETE FROM session_history WHERE session_id = ?').run(sessionId);
+    const result = this.db.prepare('DELETE FROM session_messages WHERE session_id = ?').run(sessionId);
+    return result.changes + summaryResult.changes + recordResult.changes + historyResult.changes > 0;
+  }
+
+  async list(): Promise<string[]> {
+    const rows = this.db
+      .prepare('SELECT DISTINCT session_id AS sessionId FROM session_messages')
+      .all() as Array<{ sessionId: string }>;
+    return rows.map(row => row.sessionId);
+  }
+
+  async getSummary(sessionId: string): Promise<string | null> {
+    const row = this.db
+      .prepare('SELECT summary FROM session_summaries WHERE session_id = ?')
+      .get(sessionId) as { summary: string } | undefined;
+    return row ? row.summary : null;
+  }
+
+  async setSummary(sessionId: string, summary: string): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO session_summaries (session_id, summary) VALUES (?, ?)
+      ON CONFLICT (session_id) DO UPDATE SET summary = excluded.summary
+    `).run(sessionId, summary);
+  }
+
+  async getSession(sessionId: string): Promise<ChatSession | null> {
+    const row = this.db
+      .prepare(`${SqliteSessionStore.SELECT_SESSION} WHERE id = ?`)
+      .get(sessionId) as StoredSession | undefined;
+    return row ? this.fromRow(row) : null;
+  }
+
+  async saveSession(session: ChatSession): Promise<void> {
+    const stored = serializeSession(session);
+    this.db.prepare(`
+      INSERT INTO sessions (id, user_id, title, personality, mood, message_count, created_at, updated_at)
+      VALUES (@id, @userId, @title, @personality, @mood, @messageCount, @createdAt, @updatedAt)
+      ON CONFLICT (id) DO UPDATE SET
+        user_id = excluded.user_id,
+        title = excluded.title,
+        personality = excluded.personality,
+        mood = excluded.mood,
+        message_count = excluded.message_count,
+        updated_at = excluded.updated_at
+    `).run({ ...stored, userId: stored.userId ?? null });
+  }
+
+  async listSessions(options: SessionListOptions = {}): Promise<SessionListResult> {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (options.userId) {
+      conditions.push('user_id = ?');
+      params.push(options.userId);
+    }
+    if (options.updatedBefore) {
+      conditions.push('updated_at < ?');
+      params.push(options.updatedBefore.toISOString());
+    }
+
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    const total = (this.db
+      .prepare(`SELECT COUNT(*) AS count FROM sessions${where}`)
+      .get(...params) as { count: number }).count;
+
+    const rows = this.db
+      .prepare(`${SqliteSessionStore.SELECT_SESSION}${where} ORDER BY updated_at DESC LIMIT ? OFFSET ?`)
+      .all(...params, options.limit ?? -1, options.offset || 0) as StoredSession[];
+
+    return { sessions: rows.map(row => this.fromRow(row)), total };
+  }
+
+  private fromRow(row: StoredSession): ChatSession {
+    const session = deserializeSession(row);
+    if (session.userId === null) {
+      delete session.userId;
+    }
+    return session;
+  }
+}
+
+/**
+ * Redis-backed store, shared between every server instance pointing at the same Redis
+ */
+export class RedisSessionStore implements SessionStore {
+  readonly kind = 'redis' as const;
+  private redis: Redis;
+  private static readonly KEY_PREFIX = 'vibe:session:';
+  private static readonly KEY_SUFFIX = ':messages';
+  private static readonly SUMMARY_SUFFIX = ':summary';
+  private static readonly HISTORY_SUFFIX = ':history';
+  private static readonly RECORD_SUFFIX = ':record';
+  private static readonly ALL_SESSIONS_KEY = 'vibe:sessions';
+  private static readonly USER_SESSIONS_PREFIX = 'vibe:user:';
+
+  constructor(redisUrl: string) {
+    this.redis = new Redis(redisUrl, { maxRetriesPerRequest: 3 });
+
+    this.redis.on('error', (error) => {
+      Logger.error('Redis connection error in RedisSessionStore', error);
+    });
+  }
+
+  private getKey(sessionId: string): string {
+    return `${RedisSessionStore.KEY_PREFIX}${sessionId}${RedisSessionStore.KEY_SUFFIX}`;
+  }
+
+  private getSummaryKey(sessionId: string): string {
+    return `${RedisSessionStore.KEY_PREFIX}${sessionId}${RedisSessionStore.SUMMARY_SUFFIX}`;
+  }
+
+  private getHistoryKey(sessionId: string): string {
+    return `${RedisSessionStore.KEY_PREFIX}${sessionId}${RedisSessionStore.HISTORY_SUFFIX}`;
+  }
+
+  private getRecordKey(sessionId: string): string {
+    return `${RedisSessionStore.KEY_PREFIX}${sessionId}${RedisSessionStore.RECORD_SUFFIX}`;
+  }
+
+  private getUserSessionsKey(userId: string): string {
+    return `${RedisSessionStore.USER_SESSIONS_PREFIX}${userId}:sessions`;
+  }
+
+  async get(sessionId: string): Promise<ConversationMessage[]> {
+    const items = await this.redis.lrange(this.getKey(sessionId), 0, -1);
+    return items.map(item => deserializeMessage(JSON.parse(item) as StoredMessage));
+  }
+
+  async append(sessionId: string, messages: ConversationMessage[]): Promise<number> {
+    if (messages.length === 0) {
+      return this.redis.llen(this.getKey(sessionId));
+    }
+    const serialized = messages.map(message => JSON.stringify(serializeMessage(message)));
+    const results = await this.redis.pipeline()
+      .rpush(this.getKey(sessionId), ...serialized)
+      .rpush(this.getHistoryKey(sessionId), ...serialized)
+      .exec();
+    return Number(results?.[0]?.[1] || 0);
+  }
+
+  async trim(sessionId: string, maxMessages: number): Promise<number> {
+    const key = this.getKey(sessionId);
+    const length = await this.redis.llen(key);
+    if (length <= maxMessages) {
+      return 0;
+    }
+
+    await this.redis.ltrim(key, -maxMessages, -1);
+    return length - maxMessages;
+  }
+
+  async getHistory(sessionId: string, offset: number, limit: number): Promise<{ messages: ConversationMessage[]; total: number }> {
+    const key = this.getHistoryKey(sessionId);
+    const [items, total] = await Promise.all([
+      limit > 0 ? this.redis.lrange(key, offset, offset + limit - 1) : Promise.resolve([]),
+      this.redis.llen(key)
+    ]);
+    return {
+      messages: items.map(item => deserializeMessage(JSON.parse(item) as StoredMessage)),
+      total
+    };
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    const record = await this.getSession(sessionId);
+    const pipeline = this.redis.pipeline()
+      .del(
+        this.getKey(sessionId),
+        this.getHistoryKey(sessionId),
+        this.getSummaryKey(sessionId),
+        this.getRecordKey(sessionId)
+      )
+      .zrem(RedisSessionStore.ALL_SESSIONS_KEY, sessionId);
+    if (record?.userId) {
+      pipeline.zrem(this.getUserSessionsKey(record.userId), sessionId);
+    }
+
+    const results = await pipeline.exec();
+    return Number(results?.[0]?.[1] || 0) > 0;
+  }
+
+  async list(): Promise<string[]> {
+    const sessionIds: string[] = [];
+    let cursor = '0';
+
+    do {
+      const [nextCursor, keys] = await this.redis.scan(
+        cursor,
+        'MATCH', `${RedisSessionStore.KEY_PREFIX}*${RedisSessionStore.KEY_SUFFIX}`,
+        'COUNT', 100
+      );
+      cursor = nextCursor;
+      for (const key of keys) {
+        sessionIds.push(key.slice(RedisSessionStore.KEY_PREFIX.length, -RedisSessionStore.KEY_SUFFIX.length));
+      }
+    } while (cursor !== '0');
+
+    return sessionIds;
+  }
+
+  async getSummary(sessionId: string): Promise<string | null> {
+    return this.redis.get(this.getSummaryKey(sessionId));
+  }
+
+  async setSummary(sessionId: string, summary: string): Promise<void> {
+    await this.redis.set(this.getSummaryKey(sessionId), summary);
+  }
+
+  async getSession(sessionId: string): Promise<ChatSession | null> {
+    const data = await this.redis.get(this.getRecordKey(sessionId));
+    return data ? deserializeSession(JSON.parse(data) as StoredSession) : null;
+  }
+
+  async saveSession(session: ChatSession): Promise<void> {
+    const score = new Date(session.updatedAt).getTime();
+    const pipeline = this.redis.pipeline()
+      .set(this.getRecordKey(session.id), JSON.stringify(serializeSession(session)))
+      .zadd(RedisSessionStore.ALL_SESSIONS_KEY, score, session.id);
+    if (session.userId) {
+      pipeline.zadd(this.getUserSessionsKey(session.userId), score, session.id);
+    }
+    await pipeline.exec();
+  }
+
+  async listSessions(options: SessionListOptions = {}): Promise<SessionListResult> {
+    const indexKey = options.userId
+      ? this.getUserSessionsKey(options.userId)
+      : RedisSessionStore.ALL_SESSIONS_KEY;
+    const maxScore = options.updatedBefore ? `(${options.updatedBefore.getTime()}` : '+inf';
+
+    const total = await this.redis.zcount(indexKey, '-inf', maxScore);
+    const offset = options.offset || 0;
+    const count = options.limit ?? -1;
+    const ids = await this.redis.zrevrangebyscore(indexKey, maxScore, '-inf', 'LIMIT', offset, count);
+
+    const sessions: ChatSession[] = [];
+    for (const id of ids) {
+      const session = await this.getSession(id);
+      if (session) {
+        sessions.push(session);
+      }
+    }
+
+    return { sessions, total };
+  }
+}
+
+/**
+ * Build the session store selected by SESSION_STORE (memory | sqlite | redis)
+ */
+export function createSessionStore(): SessionStore {
+  const kind = (process.env.SESSION_STORE || 'memory').trim().toLowerCase();
+
+  if (kind === 'memory') {
+    Logger.info('Using in-memory session store');
+    return new InMemorySessionStore();
+  }
+
+  if (kind === 'sqlite') {
+    const filePath = process.env.SESSION_SQLITE_PATH || path.join(process.cwd(), '.data', 'sessions.db');
+    Logger.info('Using SQLite session store', { filePath });
+    return new SqliteSessionStore(filePath);
+  }
+
+  if (kind === 'redis') {
+    const redisUrl = process.env.REDIS_URL;
+    if (!redisUrl) {
+      throw new Error('SESSION_STORE=redis but REDIS_URL is not set.');
+    }
+    Logger.info('Using Redis session store');
+    return new RedisSessionStore(redisUrl);
+  }
+
+  throw new Error(`Unsupported SESSION_STORE "${process.env.SESSION_STORE}". Use one of: memory, sqlite, redis.`);
+}
@@ -0,0 +1,129 @@
+import { AudioSegment, GestureCue, PersonalityMode, SpeechOptions } from '../types';
+import { resolveTtsEngine, synthesizeSpeech, SynthesisOptions } from './ttsEngines';
+import { getVoiceSettings } from './personalities';
+import { rhubarbQueue } from './rhubarbQueue';
+import { synthesisQueue } from './synthesisQueue';
+import { estimateWordTimings, timeGestures } from './gestureTimeline';
+import { Logger } from '../utils/logger';
+
+export interface SpokenSentence {
+  index: number;
+  text: string;
+  // Where the sentence starts in the reply's spoken text
+  charOffset: number;
+}
+
+const round = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Speaks a streamed reply one sentence at a time: each completed sentence is synthesized and
+ * lip-synced as soon as it arrives, and the resulting audio segments are sent in sentence order
+ * with their mouth cues and gestures shifted to the reply's timeline. The client can start playing
+ * after the first sentence instead of waiting for the whole reply. Synthesis goes through
+ * synthesisQueue and lip-sync through rhubarbQueue, which cap how much runs at once.
+ *
+ * A sentence that fails to synthesize is logged and skipped; the rest of the reply still plays.
+ */
+export class SpeechPipeline {
+  private options: SynthesisOptions;
+  private send: (segment: AudioSegment) => void;
+  private requestId: string;
+  // Sends segments in order; each link waits for its sentence and the one before it
+  private chain: Promise<void> = Promise.resolve();
+  private elapsed = 0;
+  private stopped = false;
+
+  constructor(
+    speech: SpeechOptions,
+    personality: PersonalityMode,
+    mood: number,
+    requestId: string,
+    send: (segment: AudioSegment) => void
+  ) {
+    const engine = resolveTtsEngine(speech.engine);
+    const voiceSettings = getVoiceSettings(personality, mood, engine);
+
+    this.options = { ...voiceSettings, engine, voice: speech.voice || voiceSettings.voice };
+    this.requestId = requestId;
+    this.send = send;
+  }
+
+  /**
+   * Start speaking a sentence. gestures may include the whole reply's cues so far; only the ones
+   * inside this sentence are used.
+   */
+  addSentence(sentence: SpokenSentence, gestures: GestureCue[]): void {
+    const end = sentence.charOffset + sentence.text.length;
+    const sentenceGestures = gestures
+      .filter(gesture => gesture.charOffset >= sentence.charOffset && gesture.charOffset < end)
+      .map(gesture => ({ tag: gesture.tag, charOffset: gesture.charOffset - sentence.charOffset }));
+
+    const segment = this.speak(sentence, sentenceGestures);
+    this.chain = this.chain.then(async () => {
+      const spoken = await segment;
+      if (!spoken || this.stopped) {
+        return;
+      }
+      this.send(this.shift(spoken, this.elapsed));
+      this.elapsed += spoken.duration;
+    });
+  }
+
+  /**
+   * Wait until every sentence added so far has been sent
+   */
+  finish(): Promise<void> {
+    return this.chain;
+  }
+
+  /**
+   * Send nothing more, e.g. once the reply was cancelled. Work already started runs to completion;
+   * sentences still waiting for synthesis are dropped.
+   */
+  stop(): void {
+    this.stopped = true;
+  }
+
+  /**
+   * Synthesize and lip-sync one sentence, with times relative to its own audio
+   */
+  private async speak(sentence: SpokenSentence, gestures: GestureCue[]): Promise<AudioSegment | null> {
+    try {
+      const speech = await synthesisQueue.run(async () => this.stopped ? null : synthesizeSpeech(sentence.text, this.options));
+      if (!speech) {
+        return null;
+      }
+      const audioContent = speech.audio.toString('base64');
+      const result = await rhubarbQueue.analyze({ audioContent, audioEncoding: 'WAV', text: sentence.text });
+      const { duration } = result.metadata;
+      const words = estimateWordTimings(sentence.text, result.mouthCues, duration);
+
+      return {
+        index: sentence.index,
+        text: sentence.text,
+        audioContent,
+        audioEncoding: 'WAV',
+        offset: 0,
+        duration,
+        mouthCues: result.mouthCues,
+        gestures: timeGestures(gestures, words, duration).map(({ tag, time }) => ({ tag, time }))
+      };
+    } catch (error) {
+      Logger.warn('Skipping sentence that could not be spoken', {
+        requestId: this.requestId,
+        sentenceIndex: sentence.index,
+        error: (error as Error).message
+      });
+      return null;
+    }
+  }
+
+  private shift(segment: AudioSegment, offset: number): AudioSegment {
+    return {
+      ...segment,
+      offset: round(offset),
+      mouthCues: segment.mouthCues.map(cue => ({ ...cue, start: round(cue.start + offset), end: round(cue.end + offset) })),
+      gestures: segment.gestures.map(gesture => ({ ...gesture, time: round(gesture.time + offset) }))
+    };
+  }
+}
@@ -0,0 +1,112 @@
+import { GestureParser, GestureRepair, GestureTag, MoodTag, DEFAULT_MOOD, GestureEvent } from './gestures';
+import { StreamChunk } from '../types';
+
+/**
+ * Events derived from the raw token stream so clients don't have to re-parse the text
+ */
+export type AnnotationEvent =
+  | { type: 'mood'; mood: MoodTag }
+  | { type: 'gesture'; tag: GestureTag; charOffset: number }
+  | { type: 'sentence'; text: string; charOffset: number; index: number };
+
+// A sentence ends at terminal punctuation (plus closing quotes/brackets) followed by whitespace
+const SENTENCE_END = /[.!?…]+["'”’)\]]*\s/g;
+
+/**
+ * Incrementally splits a streamed reply into spoken text, its mood, gesture cues with their offsets
+ * in the spoken text (see GestureParser for the tag rules), and completed sentences
+ */
+export class StreamAnnotator {
+  private parser: GestureParser;
+  private spoken = '';
+  private sentenceStart = 0;
+  private sentenceIndex = 0;
+
+  constructor(fallbackMood: MoodTag = DEFAULT_MOOD) {
+    this.parser = new GestureParser(fallbackMood);
+  }
+
+  push(text: string): AnnotationEvent[] {
+    return this.annotate(this.parser.push(text));
+  }
+
+  /**
+   * Call once the stream is done to emit the final, unterminated sentence
+   */
+  flush(): AnnotationEvent[] {
+    const events = this.annotate(this.parser.flush());
+
+    this.emitSentence(this.spoken.slice(this.sentenceStart), this.sentenceStart, events);
+    this.sentenceStart = this.spoken.length;
+
+    return events;
+  }
+
+  getMood(): MoodTag | null {
+    return this.parser.getMood();
+  }
+
+  getSpokenText(): string {
+    return this.parser.getSpokenText();
+  }
+
+  getRepairs(): GestureRepair[] {
+    return this.parser.getRepairs();
+  }
+
+  private annotate(gestureEvents: GestureEvent[]): AnnotationEvent[] {
+    const events: AnnotationEvent[] = [];
+    for (const event of gestureEvents) {
+      if (event.type === 'text') {
+        this.appendSpoken(event.text, events);
+      } else {
+        events.push(event);
+      }
+    }
+    return events;
+  }
+
+  private appendSpoken(text: string, events: AnnotationEvent[]): void {
+    this.spoken += text;
+
+    const remaining = this.spoken.slice(this.sentenceStart);
+    SENTENCE_END.lastIndex = 0;
+    let consumed = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = SENTENCE_END.exec(remaining)) !== null) {
+      const end = match.index + match[0].length;
+      this.emitSentence(remaining.slice(consumed, end), this.sentenceStart + consumed, events);
+      consumed = end;
+    }
+
+    this.sentenceStart += consumed;
+  }
+
+  private emitSentence(raw: string, offset: number, events: AnnotationEvent[]): void {
+    const text = raw.trim();
+    if (!text) {
+      return;
+    }
+    const leadingWhitespace = raw.length - raw.trimStart().length;
+    events.push({ type: 'sentence', text, charOffset: offset + leadingWhitespace, index: this.sentenceIndex++ });
+  }
+}
+
+/**
+ * The StreamChunk an annotation is sent to clients as
+ */
+export function toStreamChunk(annotation: AnnotationEvent): StreamChunk {
+  switch (annotation.type) {
+    case 'mood':
+      return { type: 'mood', mood: annotation.mood };
+    case 'gesture':
+      return { type: 'gesture', gesture: { tag: annotation.tag, charOffset: annotation.charOffset } };
+    case 'sentence':
+      return {
+        type: 'sentence',
+        content: annotation.text,
+        sentence: { index: annotation.index, charOffset: annotation.charOffset }
+      };
+  }
+}
@@ -0,0 +1,148 @@
+import { StreamChunk } from '../types';
+import { Logger } from '../utils/logger';
+
+export interface BufferedEvent {
+  id: number;
+  chunk: StreamChunk;
+}
+
+export interface StreamSubscriber {
+  onEvent(event: BufferedEvent): void;
+  onDone(): void;
+}
+
+interface BufferedStream {
+  events: BufferedEvent[];
+  done: boolean;
+  subscribers: Set<StreamSubscriber>;
+  onAbandoned?: () => void;
+  abandonTimer?: NodeJS.Timeout;
+}
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Cache-Control, Last-Event-ID'
+};
+
+/**
+ * Format one event for a text/event-stream response
+ */
+export function formatSseEvent(event: BufferedEvent): string {
+  return `id: ${event.id}\nevent: ${event.chunk.type}\ndata: ${JSON.stringify(event.chunk)}\n\n`;
+}
+
+/**
+ * Keeps every streamed reply's events, numbered, under its requestId so a client that lost the
+ * connection can reconnect and resume after the last event it saw. Finished streams are kept
+ * for a short retention window. A live stream nobody has listened to for the abandon grace period
+ * is reported as abandoned, so its generation can be stopped.
+ */
+export class StreamBuffer {
+  private streams: Map<string, BufferedStream> = new Map();
+  private retentionMs: number;
+  private abandonGraceMs: number;
+
+  private static readonly DEFAULT_RETENTION_MS = 5 * 60 * 1000;
+  private static readonly DEFAULT_ABANDON_GRACE_MS = 15 * 1000;
+
+  constructor(
+    retentionMs: number = parseInt(process.env.STREAM_BUFFER_RETENTION_MS || '', 10) || StreamBuffer.DEFAULT_RETENTION_MS,
+    abandonGraceMs: number = parseInt(process.env.STREAM_ABANDON_GRACE_MS || '', 10) || StreamBuffer.DEFAULT_ABANDON_GRACE_MS
+  ) {
+    this.retentionMs = retentionMs;
+    this.abandonGraceMs = abandonGraceMs;
+  }
+
+  open(requestId: string, onAbandoned?: () => void): void {
+    this.streams.set(requestId, { events: [], done: false, subscribers: new Set(), onAbandoned });
+  }
+
+  has(requestId: string): boolean {
+    return this.streams.has(requestId);
+  }
+
+  /**
+   * Buffer an event and deliver it to everyone listening. Returns the event id.
+   */
+  append(requestId: string, chunk: StreamChunk): number {
+    const stream = this.streams.get(requestId);
+    if (!stream || stream.done) {
+      throw new Error(`No open stream for request ${requestId}`);
+    }
+
+    const event = { id: stream.events.length + 1, chunk };
+    stream.events.push(event);
+    stream.subscribers.forEach(subscriber => subscriber.onEvent(event));
+    return event.id;
+  }
+
+  /**
+   * Mark the stream finished and schedule it for removal after the retention window
+   */
+  complete(requestId: string): void {
+    const stream = this.streams.get(requestId);
+    if (!stream || stream.done) {
+      return;
+    }
+
+    stream.done = true;
+    clearTimeout(stream.abandonTimer);
+    stream.subscribers.forEach(subscriber => subscriber.onDone());
+    stream.subscribers.clear();
+
+    setTimeout(() => {
+      this.streams.delete(requestId);
+      Logger.debug('Expired buffered stream', { requestId, events: stream.events.length });
+    }, this.retentionMs).unref();
+  }
+
+  /**
+   * Replay the events after lastEventId, then follow the live stream until it completes.
+   * Returns an unsubscribe function, or null if the stream is unknown or has expired.
+   */
+  subscribe(requestId: string, lastEventId: number, subscriber: StreamSubscriber): (() => void) | null {
+    const stream = this.streams.get(requestId);
+    if (!stream) {
+      return null;
+    }
+
+    stream.events
+      .filter(event => event.id > lastEventId)
+      .forEach(event => subscriber.onEvent(event));
+
+    if (stream.done) {
+      subscriber.onDone();
+      return () => {};
+    }
+
+    clearTimeout(stream.abandonTimer);
+    stream.subscribers.add(subscriber);
+    return () => {
+      stream.subscribers.delete(subscriber);
+      if (stream.subscribers.size === 0 && !stream.done) {
+        this.scheduleAbandon(requestId, stream);
+      }
+    };
+  }
+
+  /**
+   * Give a disconnected client the grace period to resume before the stream counts as abandoned
+   */
+  private scheduleAbandon(requestId: string, stream: BufferedStream): void {
+    if (!stream.onAbandoned) {
+      return;
+    }
+
+    clearTimeout(stream.abandonTimer);
+    stream.abandonTimer = setTimeout(() => {
+      if (stream.subscribers.size === 0 && !stream.done) {
+        Logger.info('Buffered stream abandoned', { requestId, graceMs: this.abandonGraceMs });
+        stream.onAbandoned?.();
+      }
+    }, this.abandonGraceMs);
+    stream.abandonTimer.unref();
+  }
+}
@@ -0,0 +1,44 @@
+const readIntEnv = (name: string, fallback: number): number => parseInt(process.env[name] || '', 10) || fallback;
+
+/**
+ * Runs speech synthesis a few sentences at a time across every reply being spoken, so a long
+ * streamed reply can't start dozens of piper/espeak processes or TTS API calls at once. Sentences
+ * wait their turn in the order they were added.
+ */
+export class SynthesisQueue {
+  private concurrency: number;
+  private running = 0;
+  private waiting: Array<() => void> = [];
+
+  private static readonly DEFAULT_CONCURRENCY = 2;
+
+  constructor(concurrency: number = readIntEnv('TTS_CONCURRENCY', SynthesisQueue.DEFAULT_CONCURRENCY)) {
+    this.concurrency = concurrency;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.running < this.concurrency) {
+      this.running++;
+    } else {
+      // The slot is handed over by the task that finishes, so `running` stays counted
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.running--;
+      }
+    }
+  }
+
+  getStats(): { running: number; queued: number } {
+    return { running: this.running, queued: this.waiting.length };
+  }
+}
+
+export const synthesisQueue = new SynthesisQueue();
@@ -0,0 +1,86 @@
+import { ChatSession, ConversationMessage } from '../types';
+
+export type TranscriptFormat = 'json' | 'markdown' | 'text';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['json', 'markdown', 'text'];
+
+export interface TranscriptExport {
+  body: string;
+  contentType: string;
+  fileExtension: string;
+}
+
+// Matches [mood:happy], [nod], [widen_eyes] and the whitespace that follows them
+const GESTURE_TAG_PATTERN = /\[(?:mood:)?[a-z_]+\]\s*/gi;
+
+/**
+ * Remove mood and gesture tags so the text reads as plain speech
+ */
+export function stripGestureTags(text: string): string {
+  return text.replace(GESTURE_TAG_PATTERN, '').replace(/\s{2,}/g, ' ').trim();
+}
+
+const speakerName = (message: ConversationMessage): string =>
+  message.role === 'user' ? 'User' : 'Assistant';
+
+const formatContent = (message: ConversationMessage, stripGestures: boolean): string =>
+  stripGestures ? stripGestureTags(message.content) : message.content;
+
+const formatTime = (timestamp: Date): string => new Date(timestamp).toISOString();
+
+/**
+ * Render a session transcript as JSON, Markdown or a plain speaker-prefixed script
+ */
+export function exportTranscript(
+  session: ChatSession,
+  messages: ConversationMessage[],
+  format: TranscriptFormat,
+  stripGestures: boolean
+): TranscriptExport {
+  if (format === 'json') {
+    return {
+      body: JSON.stringify({
+        session,
+        exportedAt: new Date().toISOString(),
+        gesturesStripped: stripGestures,
+        messages: messages.map(message => ({
+          ...message,
+          content: formatContent(message, stripGestures)
+        }))
+      }, null, 2),
+      contentType: 'application/json; charset=utf-8',
+      fileExtension: 'json'
+    };
+  }
+
+  if (format === 'markdown') {
+    const lines = [
+      `# ${session.title}`,
+      '',
+      `- Session: \`${session.id}\``,
+      `- Personality: ${session.personality} (mood ${session.mood})`,
+      `- Started: ${formatTime(session.createdAt)}`,
+      `- Messages: ${messages.length}`,
+      ''
+    ];
+
+    for (const message of messages) {
+      lines.push(`**${speakerName(message)}** _(${formatTime(message.timestamp)})_`, '');
+      lines.push(formatContent(message, stripGestures), '');
+    }
+
+    return {
+      body: lines.join('\n'),
+      contentType: 'text/markdown; charset=utf-8',
+      fileExtension: 'md'
+    };
+  }
+
+  return {
+    body: messages
+      .map(message => `${speakerName(message)}: ${formatContent(message, stripGestures)}`)
+      .join('\n\n') + '\n',
+    contentType: 'text/plain; charset=utf-8',
+    fileExtension: 'txt'
+  };
+}
@@ -0,0 +1,222 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { runProcess, RunProcessOptions } from '../utils/runProcess';
+import { Prosody, TtsEngineName } from '../types';
+
+// Local engines are the default; cloud engines are only used when a request or TTS_ENGINE asks for them
+export const TTS_ENGINE_NAMES: TtsEngineName[] = ['piper', 'espeak', 'openai', 'google'];
+
+export interface SynthesisOptions extends Partial<Prosody> {
+  engine?: string;
+  voice?: string;
+}
+
+/**
+ * Synthesized speech, always as WAV so Rhubarb can read it without a conversion step
+ */
+export interface SynthesizedSpeech extends Prosody {
+  audio: Buffer;
+  engine: TtsEngineName;
+  voice: string;
+}
+
+interface TtsEngineConfig {
+  // Env var that must be set for the engine to be available (model path or API key)
+  requiredEnv?: string;
+  defaultVoice(): string;
+  // Engines apply as much of the prosody as they support, clamped to their range
+  synthesize(text: string, voice: string, prosody: Prosody): Promise<Buffer>;
+}
+
+// Voice names end up in file paths and command lines, so keep them to plain identifiers
+const VOICE_PATTERN = /^[A-Za-z0-9][\w.+-]{0,63}$/;
+const CLOUD_TIMEOUT_MS = 30000;
+const DEFAULT_PROCESS_TIMEOUT_MS = 30000;
+// espeak's defaults: words per minute, and pitch on a 0-99 scale
+const ESPEAK_BASE_SPEED = 175;
+const ESPEAK_BASE_PITCH = 50;
+const ESPEAK_PITCH_PER_SEMITONE = 4;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+/**
+ * Run a command line engine that writes a WAV file, and read the file back
+ */
+async function synthesizeToFile(run: (wavPath: string) => Promise<void>): Promise<Buffer> {
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tts-'));
+  const wavPath = path.join(tempDir, 'speech.wav');
+
+  try {
+    await run(wavPath);
+    return await fs.readFile(wavPath);
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Run a local engine, killing it when it takes longer than TTS_PROCESS_TIMEOUT_MS so a hung engine
+ * can't hold its synthesis slot forever
+ */
+async function runEngine(command: string, args: string[], options: Omit<RunProcessOptions, 'signal'>): Promise<void> {
+  const configured = Number(process.env.TTS_PROCESS_TIMEOUT_MS);
+  const timeoutMs = configured > 0 ? configured : DEFAULT_PROCESS_TIMEOUT_MS;
+  const signal = AbortSignal.timeout(timeoutMs);
+  try {
+    await runProcess(command, args, { ...options, signal });
+  } catch (error) {
+    if (signal.aborted) {
+      throw new Error(`${path.basename(command)} timed out after ${timeoutMs}ms and was killed`);
+    }
+    throw error;
+  }
+}
+
+async function postJson(engine: string, url: string, body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(CLOUD_TIMEOUT_MS)
+  });
+
+  if (!response.ok) {
+    throw new Error(`${engine} TTS request failed with ${response.status}: ${await response.text()}`);
+  }
+  return response;
+}
+
+const ENGINES: Record<TtsEngineName, TtsEngineConfig> = {
+  piper: {
+    requiredEnv: 'PIPER_MODEL',
+    // A voice is the name of another .onnx model next to PIPER_MODEL
+    defaultVoice: () => path.basename(process.env.PIPER_MODEL as string, '.onnx'),
+    // Piper can change its pace but not its pitch
+    synthesize: (text, voice, { rate }) => synthesizeToFile(wavPath => {
+      const modelPath = path.join(path.dirname(process.env.PIPER_MODEL as string), `${voice}.onnx`);
+      return runEngine(process.env.PIPER_BINARY || 'piper', [
+        '--model', modelPath,
+        '--length_scale', String(Math.round(100 / clamp(rate, 0.25, 4)) / 100),
+        '--output_file', wavPath
+      ], { binaryEnv: 'PIPER_BINARY', input: text });
+    })
+  },
+  espeak: {
+    defaultVoice: () => process.env.ESPEAK_VOICE || 'en-us',
+    synthesize: (text, voice, { rate, pitch }) => synthesizeToFile(wavPath => runEngine(process.env.ESPEAK_BINARY || 'espeak-ng', [
+      '-v', voice,
+      '-s', String(Math.round(ESPEAK_BASE_SPEED * clamp(rate, 0.5, 3))),
+      '-p', String(clamp(Math.round(ESPEAK_BASE_PITCH + pitch * ESPEAK_PITCH_PER_SEMITONE), 0, 99)),
+      '-w', wavPath,
+      '--stdin'
+    ], { binaryEnv: 'ESPEAK_BINARY', input: text }))
+  },
+  openai: {
+    requiredEnv: 'OPENAI_API_KEY',
+    defaultVoice: () => process.env.OPENAI_TTS_VOICE || 'alloy',
+    // OpenAI voices have a speed but no pitch control
+    synthesize: async (text, voice, { rate }) => {
+      const response = await postJson('OpenAI', process.env.OPENAI_TTS_URL || 'https://api.openai.com/v1/audio/speech', {
+        model: process.env.OPENAI_TTS_MODEL || 'gpt-4o-mini-tts',
+        voice,
+        input: text,
+        speed: clamp(rate, 0.25, 4),
+        response_format: 'wav'
+      }, { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` });
+      return Buffer.from(await response.arrayBuffer());
+    }
+  },
+  google: {
+    requiredEnv: 'GOOGLE_TTS_API_KEY',
+    defaultVoice: () => process.env.GOOGLE_TTS_VOICE || 'en-US-Neural2-F',
+    synthesize: async (text, voice, { rate, pitch }) => {
+      const url = new URL(process.env.GOOGLE_TTS_URL || 'https://texttospeech.googleapis.com/v1/text:synthesize');
+      url.searchParams.set('key', process.env.GOOGLE_TTS_API_KEY as string);
+      // Voice names start with their language code, e.g. en-US-Neural2-F
+      const languageCode = voice.split('-').slice(0, 2).join('-');
+
+      const response = await postJson('Google', url.toString(), {
+        input: { text },
+        voice: { languageCode, name: voice },
+        // LINEAR16 comes back with a WAV header
+        audioConfig: {
+          audioEncoding: 'LINEAR16',
+          speakingRate: clamp(rate, 0.25, 4),
+          pitch: clamp(pitch, -20, 20)
+        }
+      });
+      const { audioContent } = await response.json() as { audioContent: string };
+      return Buffer.from(audioContent, 'base64');
+    }
+  }
+};
+
+const isTtsEngineName = (name: string): name is TtsEngineName => (TTS_ENGINE_NAMES as string[]).includes(name);
+
+export function isTtsEngineConfigured(engine: TtsEngineName): boolean {
+  const { requiredEnv } = ENGINES[engine];
+  return !requiredEnv || !!process.env[requiredEnv];
+}
+
+/**
+ * TTS_ENGINE if set, otherwise Piper when a model is configured, otherwise espeak
+ */
+export function getDefaultTtsEngine(): TtsEngineName {
+  const requested = (process.env.TTS_ENGINE || '').trim().toLowerCase();
+  if (!requested) {
+    return isTtsEngineConfigured('piper') ? 'piper' : 'espeak';
+  }
+
+  if (!isTtsEngineName(requested)) {
+    throw new Error(`Unsupported TTS_ENGINE "${process.env.TTS_ENGINE}". Use one of: ${TTS_ENGINE_NAMES.join(', ')}.`);
+  }
+  if (!isTtsEngineConfigured(requested)) {
+    throw new Error(`TTS_ENGINE=${requested} but ${ENGINES[requested].requiredEnv} is missing.`);
+  }
+  return requested;
+}
+
+/**
+ * Check client-supplied synthesis options. Returns an error message or null.
+ */
+export function validateSynthesisOptions(options: SynthesisOptions): string | null {
+  if (options.engine !== undefined) {
+    if (typeof options.engine !== 'string' || !isTtsEngineName(options.engine)) {
+      return `Unknown TTS engine. Use one of: ${TTS_ENGINE_NAMES.join(', ')}`;
+    }
+    if (!isTtsEngineConfigured(options.engine)) {
+      return `TTS engine not available: ${options.engine}`;
+    }
+  }
+
+  if (options.voice !== undefined && (typeof options.voice !== 'string' || !VOICE_PATTERN.test(options.voice))) {
+    return 'voice must be a voice name of letters, digits, ".", "_", "+" or "-"';
+  }
+
+  return null;
+}
+
+/**
+ * The engine a request will use: the one it asked for (see validateSynthesisOptions) or the default
+ */
+export function resolveTtsEngine(engine?: string): TtsEngineName {
+  return (engine as TtsEngineName | undefined) || getDefaultTtsEngine();
+}
+
+/**
+ * Speak the text with the requested engine, voice and prosody, falling back to the defaults
+ */
+export async function synthesizeSpeech(text: string, options: SynthesisOptions = {}): Promise<SynthesizedSpeech> {
+  const engine = resolveTtsEngine(options.engine);
+  const config = ENGINES[engine];
+  const voice = options.voice || config.defaultVoice();
+  const prosody = { rate: options.rate ?? 1, pitch: options.pitch ?? 0 };
+
+  return {
+    audio: await config.synthesize(text, voice, prosody),
+    engine,
+    voice,
+    ...prosody
+  };
+}
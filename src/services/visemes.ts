@@ -0,0 +1,49 @@
+import { Logger } from '../utils/logger';
+
+/**
+ * Rhubarb's mouth shapes mapped to the avatar's viseme blendshapes (the Oculus/ARKit-style
+ * viseme_* morph targets):
+ *  A: closed lips (P, B, M)      B: slightly open, clenched teeth (most consonants)
+ *  C: open (EH, AE)              D: wide open (AA)
+ *  E: rounded (AO, ER)           F: puckered (UW, OW, W)
+ *  G: teeth on lip (F, V)        H: tongue raised (long L)
+ *  X: rest
+ */
+const DEFAULT_VISEMES: Record<string, string> = {
+  A: 'viseme_PP',
+  B: 'viseme_kk',
+  C: 'viseme_E',
+  D: 'viseme_aa',
+  E: 'viseme_O',
+  F: 'viseme_U',
+  G: 'viseme_FF',
+  H: 'viseme_TH',
+  X: 'viseme_sil'
+};
+
+/**
+ * The default mapping with RHUBARB_VISEME_MAP applied on top, e.g. "D=mouthOpen,X=neutral"
+ */
+function loadVisemeMap(): Record<string, string> {
+  const visemes = { ...DEFAULT_VISEMES };
+
+  for (const pair of (process.env.RHUBARB_VISEME_MAP || '').split(',').map(entry => entry.trim()).filter(Boolean)) {
+    const [shape, viseme] = pair.split('=').map(part => part.trim());
+    if (!shape || !viseme || !(shape.toUpperCase() in DEFAULT_VISEMES)) {
+      Logger.warn('Ignoring malformed RHUBARB_VISEME_MAP entry', { entry: pair });
+      continue;
+    }
+    visemes[shape.toUpperCase()] = viseme;
+  }
+
+  return visemes;
+}
+
+const VISEMES = loadVisemeMap();
+
+/**
+ * The avatar viseme for a Rhubarb shape (A-H, X)
+ */
+export function toViseme(shape: string): string {
+  return VISEMES[shape] ?? VISEMES.X;
+}
@@ -1,6 +1,7 @@
 import { Tool } from '@langchain/core/tools';
 import { CallbackManagerForToolRun } from '@langchain/core/callbacks/manager';
 import { Logger } from '../utils/logger';
+import { getRequestContext } from '../utils/requestContext';
 import { getUserSpotifyToken } from '../routes/spotify';
 
 interface SpotifyTrack {
@@ -68,7 +69,7 @@ CRITICAL: Use EXACT format "action:query" (colon separated). Examples:
 
 DO NOT use XML-like syntax or function calls. Use only the colon-separated format above.`;
   
-  private static readonly SPOTIFY_BASE_URL = 'https://api.spotify.com/v1';
+  private static readonly SPOTIFY_BASE_URL = process.env.SPOTIFY_API_URL || 'https://api.spotify.com/v1';
   private static readonly DEFAULT_SEARCH_LIMIT = 5;
   private static readonly DEVICE_ACTIVATION_DELAY = 1000;
 
@@ -195,6 +196,10 @@ DO NOT use XML-like syntax or function calls. Use only the colon-separated forma
    * Generate unique request ID for tracking
    */
   private generateRequestId(): string {
+    const context = getRequestContext();
+    if (context) {
+      return context.requestId;
+    }
     return `spotify-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
   }
   
@@ -377,7 +382,7 @@ DO NOT use XML-like syntax or function calls. Use only the colon-separated forma
     try {
       // First search for the track
       const searchResponse = await fetch(
-        `https://api.spotify.com/v1/search?q=${encodeURIComponent(trackName)}&type=track&limit=1`,
+        `${SpotifyTool.SPOTIFY_BASE_URL}/search?q=${encodeURIComponent(trackName)}&type=track&limit=1`,
         {
           headers: {
             'Authorization': `Bearer ${userToken}`
@@ -398,7 +403,7 @@ DO NOT use XML-like syntax or function calls. Use only the colon-separated forma
       const track = searchData.tracks.items[0];
       
       // Try to start playback
-      let playResponse = await fetch('https://api.spotify.com/v1/me/player/play', {
+      let playResponse = await fetch(`${SpotifyTool.SPOTIFY_BASE_URL}/me/player/play`, {
         method: 'PUT',
         headers: {
           'Authorization': `Bearer ${userToken}`,
@@ -422,7 +427,7 @@ DO NOT use XML-like syntax or function calls. Use only the colon-separated forma
             // Wait a moment for device activation, then retry
             await new Promise(resolve => setTimeout(resolve, 1000));
             
-            playResponse = await fetch('https://api.spotify.com/v1/me/player/play', {
+            playResponse = await fetch(`${SpotifyTool.SPOTIFY_BASE_URL}/me/player/play`, {
               method: 'PUT',
               headers: {
                 'Authorization': `Bearer ${userToken}`,
@@ -466,7 +471,7 @@ DO NOT use XML-like syntax or function calls. Use only the colon-separated forma
     }
 
     try {
-      const response = await fetch('https://api.spotify.com/v1/me/player/pause', {
+      const response = await fetch(`${SpotifyTool.SPOTIFY_BASE_URL}/me/player/pause`, {
         method: 'PUT',
         headers: {
           'Authorization': `Bearer ${userToken}`
@@ -496,7 +501,7 @@ DO NOT use XML-like syntax or function calls. Use only the colon-separated forma
     }
 
     try {
-      const response = await fetch('https://api.spotify.com/v1/me/player/play', {
+      const response = await fetch(`${SpotifyTool.SPOTIFY_BASE_URL}/me/player/play`, {
         method: 'PUT',
         headers: {
           'Authorization': `Bearer ${userToken}`
@@ -526,7 +531,7 @@ DO NOT use XML-like syntax or function calls. Use only the colon-separated forma
     }
 
     try {
-      const response = await fetch('https://api.spotify.com/v1/me/player/next', {
+      const response = await fetch(`${SpotifyTool.SPOTIFY_BASE_URL}/me/player/next`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${userToken}`
@@ -553,7 +558,7 @@ DO NOT use XML-like syntax or function calls. Use only the colon-separated forma
     }
 
     try {
-      const response = await fetch('https://api.spotify.com/v1/me/player/currently-playing', {
+      const response = await fetch(`${SpotifyTool.SPOTIFY_BASE_URL}/me/player/currently-playing`, {
         headers: {
           'Authorization': `Bearer ${userToken}`
         }
@@ -1,6 +1,7 @@
 import { Tool } from '@langchain/core/tools';
 import { CallbackManagerForToolRun } from '@langchain/core/callbacks/manager';
 import { Logger } from '../utils/logger';
+import { getRequestContext } from '../utils/requestContext';
 import open from 'open';
 
 export class WebOpenTool extends Tool {
@@ -19,7 +20,7 @@ export class WebOpenTool extends Tool {
     url: string,
     runManager?: CallbackManagerForToolRun
   ): Promise<string> {
-    const requestId = 'open-' + Date.now();
+    const requestId = getRequestContext()?.requestId || 'open-' + Date.now();
 
     try {
       Logger.info('Opening web page', { requestId, url });
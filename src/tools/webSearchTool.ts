@@ -1,6 +1,7 @@
 import { Tool } from '@langchain/core/tools';
 import { CallbackManagerForToolRun } from '@langchain/core/callbacks/manager';
 import { Logger } from '../utils/logger';
+import { getRequestContext } from '../utils/requestContext';
 
 export interface BraveSearchResult {
   title: string;
@@ -34,7 +35,7 @@ export class WebSearchTool extends Tool {
   Input: A search query string (be specific and concise)`;
 
   private apiKey: string;
-  private baseUrl = 'https://api.search.brave.com/res/v1/web/search';
+  private baseUrl = process.env.BRAVE_SEARCH_URL || 'https://api.search.brave.com/res/v1/web/search';
 
   constructor() {
     super();
@@ -49,7 +50,7 @@ export class WebSearchTool extends Tool {
     query: string,
     runManager?: CallbackManagerForToolRun
   ): Promise<string> {
-    const requestId = 'search-' + Date.now();
+    const requestId = getRequestContext()?.requestId || 'search-' + Date.now();
     if (!this.apiKey) {
       Logger.warn('Web search attempted but no API key configured', { requestId, query });
       return 'Web search is currently unavailable. Please check the configuration.';
@@ -67,6 +68,8 @@ export class WebSearchTool extends Tool {
 
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 10000);
+      // Also stop the search when the chat request itself is cancelled
+      const requestSignal = getRequestContext()?.signal;
 
       const response = await fetch(url.toString(), {
         method: 'GET',
@@ -75,7 +78,7 @@ export class WebSearchTool extends Tool {
           'Accept-Encoding': 'gzip',
           'X-Subscription-Token': this.apiKey,
         },
-        signal: controller.signal,
+        signal: requestSignal ? AbortSignal.any([controller.signal, requestSignal]) : controller.signal,
       });
       
       clearTimeout(timeoutId);
@@ -1,5 +0,0 @@
-declare global {
-  var currentSessionId: string | undefined;
-}
-
-export {};
\ No newline at end of file
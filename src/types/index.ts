@@ -4,6 +4,13 @@ export interface ConversationMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  // Set on an assistant reply that was stopped before it finished
+  cancelled?: boolean;
+}
+
+export interface SessionMemory {
+  summary: string | null;
+  messages: ConversationMessage[];
 }
 
 export interface AgentRequest {
@@ -12,46 +19,250 @@ export interface AgentRequest {
   mood: number;
   userId?: string;
   conversationHistory?: ConversationMessage[];
+  provider?: string;
+  model?: string;
+  // Streamed replies only: also speak each sentence as it completes (see SpeechPipeline)
+  speech?: SpeechOptions;
+  // IANA zone the user's times are in, e.g. "Europe/Berlin" (default: DEFAULT_TIME_ZONE)
+  timeZone?: string;
+}
+
+export interface SpeechOptions {
+  engine?: string;
+  voice?: string;
+}
+
+/**
+ * POST /tts/synthesize. The text may be a raw reply; its mood and gesture tags are not spoken.
+ */
+export interface TtsSynthesizeRequest {
+  text: string;
+  personality?: PersonalityMode;
+  // 0-100, picks the personality's mood adjustments (default 50)
+  mood?: number;
+  engine?: string;
+  voice?: string;
+}
+
+/**
+ * A gesture tag and where it starts in the spoken text
+ */
+export interface GestureCue {
+  tag: string;
+  charOffset: number;
 }
 
 export interface AgentResponse {
+  // The raw reply, including mood and gesture tags
   message: string;
+  // The reply with the tags removed, which is what gets spoken
+  spokenText?: string;
+  mood?: string;
+  gestures?: GestureCue[];
   personality: PersonalityMode;
   confidence: number;
   responseTime: number;
   suggestions?: string[];
+  model?: string;
+  provider?: string;
+  cancelled?: boolean;
+  // Set when the turn failed and message is an apology instead of a reply
+  error?: string;
+}
+
+/**
+ * client_cancelled: POST /agent/chat/:requestId/cancel; client_disconnected: the client went away
+ */
+export type CancelReason = 'client_cancelled' | 'client_disconnected';
+
+export type StreamEventType =
+  | 'start'
+  | 'chunk'
+  | 'end'
+  | 'error'
+  | 'tool_start'
+  | 'tool_end'
+  | 'mood'
+  | 'gesture'
+  | 'sentence'
+  | 'cancelled'
+  | 'message'
+  | 'audio';
+
+export interface MouthCue {
+  start: number;
+  end: number;
+  // Rhubarb's shape, A-H or X
+  value: string;
+  // The avatar blendshape for the shape (see visemes.ts)
+  viseme?: string;
+}
+
+/**
+ * One spoken sentence of a streamed reply. Times are in seconds from the start of the reply's
+ * audio, so segments played back to back line up with their mouth cues and gestures.
+ */
+export interface AudioSegment {
+  index: number;
+  text: string;
+  audioContent: string;
+  audioEncoding: 'WAV';
+  offset: number;
+  duration: number;
+  mouthCues: MouthCue[];
+  gestures: { tag: string; time: number }[];
 }
 
 export interface StreamChunk {
-  type: 'start' | 'chunk' | 'end' | 'error';
+  type: StreamEventType;
   content?: string;
+  tool?: {
+    name: string;
+    input: string;
+    durationMs?: number;
+  };
+  mood?: string;
+  gesture?: GestureCue;
+  // Sent with `end`: the whole reply's spoken text and gesture cues
+  spokenText?: string;
+  gestures?: GestureCue[];
+  sentence?: {
+    index: number;
+    charOffset: number;
+  };
+  audio?: AudioSegment;
+  // Sent with the `start` of a reply to a delayed action, so the avatar can introduce it
+  scheduled?: {
+    actionId: string;
+    request: string;
+    scheduledFor: string;
+  };
   metadata?: {
     personality: PersonalityMode;
+    requestId?: string;
     confidence?: number;
     responseTime?: number;
     suggestions?: string[];
+    model?: string;
+    provider?: string;
+    cancelReason?: CancelReason;
   };
 }
 
+/**
+ * What a client sends over the chat WebSocket. Chat fields left out fall back to the connection's
+ * current personality and mood, which `settings` changes.
+ */
+export type ChatSocketClientMessage =
+  | ({ type: 'chat' } & Omit<AgentRequest, 'personality' | 'mood'> & Partial<Pick<AgentRequest, 'personality' | 'mood'>>)
+  | { type: 'cancel'; requestId?: string }
+  | { type: 'settings'; personality?: PersonalityMode; mood?: number };
+
+/**
+ * What the server sends over the chat WebSocket: the StreamChunks of each reply tagged with its
+ * requestId (including replies to delayed actions), server-pushed `message` chunks, and
+ * acknowledgements of the connection settings
+ */
+export type ChatSocketServerMessage =
+  | (StreamChunk & { requestId?: string })
+  | { type: 'ready' | 'settings'; sessionId?: string; personality: PersonalityMode; mood: number };
+
+/**
+ * What ChatAgentService.streamMessage yields: reply tokens and tool lifecycle events
+ */
+export type AgentStreamEvent =
+  | { type: 'token'; content: string }
+  | { type: 'tool_start'; tool: string; input: string }
+  | { type: 'tool_end'; tool: string; input: string; durationMs: number };
+
+export type MoodLevel = 'low' | 'medium' | 'high';
+
+export type TtsEngineName = 'piper' | 'espeak' | 'openai' | 'google';
+
+/**
+ * How a change of pace and pitch is expressed: rate is a speed multiplier (1 = the voice's normal
+ * pace), pitch is in semitones from the voice's normal pitch
+ */
+export interface Prosody {
+  rate: number;
+  pitch: number;
+}
+
+export interface VoiceProfile extends Prosody {
+  // Voice per TTS engine; engines without one use their default voice
+  voiceIds: Partial<Record<TtsEngineName, string>>;
+  // Applied on top for each mood band: rates multiply, pitches add
+  moodAdjustments: Record<MoodLevel, Partial<Prosody>>;
+}
+
 export interface PersonalityConfig {
   name: string;
   description: string;
   systemPrompt: string;
-  moodModifiers: {
-    low: string;
-    medium: string;
-    high: string;
-  };
+  moodModifiers: Record<MoodLevel, string>;
+  voice: VoiceProfile;
 }
 
 export interface ChatSession {
   id: string;
   userId?: string;
-  messages: ConversationMessage[];
+  title: string;
+  personality: PersonalityMode;
+  mood: number;
+  messageCount: number;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface SessionListOptions {
+  userId?: string;
+  updatedBefore?: Date;
+  offset?: number;
+  limit?: number;
+}
+
+export interface SessionListResult {
+  sessions: ChatSession[];
+  total: number;
+}
+
+/**
+ * pending -> running -> completed | failed; pending -> cancelled; running -> cancelled (repeating actions
+ * only, when their series is cancelled mid-run)
+ */
+export type DelayedActionStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * A request the user asked to have carried out later, replayed as a chat turn in their session
+ */
+export interface DelayedAction {
+  id: string;
+  sessionId: string;
+  userId?: string;
+  personality: PersonalityMode;
+  mood: number;
+  // The request without its time phrase, e.g. "Tell me a joke"
+  message: string;
+  // Epoch milliseconds
+  executeAt: number;
+  createdAt: number;
+  // Repeating actions: a cron expression or "@every <n>m|h"; each run schedules the next occurrence as a new action
+  recurrence?: string;
+  // Repeating actions: the id of the series' first occurrence, shared by every occurrence
+  seriesId?: string;
+  // Where the recurrence's wall-clock times are read
+  timeZone?: string;
+  status: DelayedActionStatus;
+  // When a processor claimed it to run
+  startedAt?: number;
+  completedAt?: number;
+  // The reply, once completed
+  result?: string;
+  error?: string;
+  // When the outcome was pushed to the session; until then it waits for the client to connect
+  deliveredAt?: number;
+}
+
 export interface SearchResult {
   title: string;
   url: string;
@@ -0,0 +1,39 @@
+import { Logger } from './logger';
+
+// Frontend origins allowed to call the API, over HTTP (CORS) and WebSocket.
+// Built on each check so FRONTEND_URL from .env is seen regardless of import order.
+const getAllowedOrigins = (): string[] => [
+  'http://localhost:3000',  // React default
+  'http://localhost:5173',  // Vite default
+  'http://localhost:8080',  // Your current frontend
+  'http://localhost:4200',  // Angular default
+  process.env.FRONTEND_URL  // Custom frontend URL from env
+].filter((origin): origin is string => !!origin); // Remove undefined values
+
+/**
+ * Whether a browser origin may use the API
+ */
+export function isOriginAllowed(origin?: string): boolean {
+  const allowedOrigins = getAllowedOrigins();
+  Logger.debug('CORS origin check', { origin, allowedOrigins });
+
+  // Allow requests with no origin (like mobile apps or curl requests)
+  if (!origin) {
+    Logger.debug('CORS: Allowing request with no origin');
+    return true;
+  }
+
+  if (allowedOrigins.includes(origin)) {
+    Logger.debug('CORS: Origin found in allowed list', { origin });
+    return true;
+  }
+
+  // In development, allow any localhost origin
+  if (process.env.NODE_ENV === 'development' && origin.includes('localhost')) {
+    Logger.debug('CORS: Allowing localhost origin in development', { origin });
+    return true;
+  }
+
+  Logger.warn('CORS: Origin blocked', { origin, allowedOrigins });
+  return false;
+}
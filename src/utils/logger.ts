@@ -1,4 +1,5 @@
 import { PersonalityMode } from '../types';
+import { getRequestContext } from './requestContext';
 
 export interface ChatLogData {
   sessionId?: string;
@@ -22,6 +23,14 @@ export class Logger {
     return date.toISOString();
   }
 
+  /**
+   * Request and session IDs of the request being handled, so plain log lines can be correlated
+   */
+  private static contextFields(): { requestId?: string; sessionId?: string } {
+    const context = getRequestContext();
+    return context ? { requestId: context.requestId, sessionId: context.sessionId } : {};
+  }
+
   private static generateRequestId(): string {
     return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -207,6 +216,7 @@ export class Logger {
     const logEntry = {
       level: 'INFO',
       timestamp: this.formatTimestamp(new Date()),
+      ...this.contextFields(),
       message,
       data
     };
@@ -217,6 +227,7 @@ export class Logger {
     const logEntry = {
       level: 'WARN',
       timestamp: this.formatTimestamp(new Date()),
+      ...this.contextFields(),
       message,
       data
     };
@@ -227,6 +238,7 @@ export class Logger {
     const logEntry = {
       level: 'ERROR',
       timestamp: this.formatTimestamp(new Date()),
+      ...this.contextFields(),
       message,
       error: error ? {
         message: error.message,
@@ -243,6 +255,7 @@ export class Logger {
       const logEntry = {
         level: 'DEBUG',
         timestamp: this.formatTimestamp(new Date()),
+        ...this.contextFields(),
         message,
         data
       };
@@ -0,0 +1,33 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { PersonalityMode } from '../types';
+
+/**
+ * Per-request state that follows a chat request through every await, including tool calls
+ */
+export interface RequestContext {
+  requestId: string;
+  sessionId?: string;
+  userId?: string;
+  personality?: PersonalityMode;
+  mood?: number;
+  timeZone?: string;
+  signal?: AbortSignal;
+  // Set while a delayed action is being carried out
+  delayedActionId?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function with the given request context visible to everything it calls
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Get the context of the request currently being handled, if any
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
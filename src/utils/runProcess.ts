@@ -0,0 +1,60 @@
+import { spawn } from 'child_process';
+
+export interface RunProcessOptions {
+  // Env var that points at the executable, named in the error when it cannot be found
+  binaryEnv: string;
+  // Written to the process's stdin, which is otherwise closed right away
+  input?: string;
+  cwd?: string;
+  // Kills the process when aborted
+  signal?: AbortSignal;
+}
+
+/**
+ * Run an external command to completion, rejecting with its stderr when it fails, or with the
+ * signal's reason when it is aborted
+ */
+export const runProcess = (command: string, args: string[], options: RunProcessOptions): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(options.signal.reason);
+      return;
+    }
+
+    const child = spawn(command, args, { cwd: options.cwd, stdio: ['pipe', 'pipe', 'pipe'] });
+    let stderr = '';
+
+    const onAbort = () => {
+      child.kill('SIGKILL');
+      reject(options.signal?.reason);
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.stderr.on('data', (chunk) => {
+      stderr += chunk.toString();
+    });
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') {
+        reject(new Error(
+          `Command not found: ${command}. Set ${options.binaryEnv} to a valid executable path or install it in PATH.`
+        ));
+        return;
+      }
+      reject(error);
+    });
+
+    child.on('close', (code) => {
+      options.signal?.removeEventListener('abort', onAbort);
+      if (code === 0) {
+        resolve();
+        return;
+      }
+      reject(new Error(stderr || `${command} exited with code ${code}`));
+    });
+
+    // The process may exit without reading its input; that shows up as a non-zero exit instead
+    child.stdin.on('error', () => {});
+    child.stdin.end(options.input);
+  });
+};
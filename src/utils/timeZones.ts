@@ -0,0 +1,122 @@
+/**
+ * Wall-clock date and time in some time zone. month is 1-12, weekday 0 (Sunday) to 6.
+ */
+export interface ZonedDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HALF_DAY = 12 * 60 * 60 * 1000;
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) {
+    return false;
+  }
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * DEFAULT_TIME_ZONE if set, otherwise the server's own zone
+ */
+export function getDefaultTimeZone(): string {
+  const configured = process.env.DEFAULT_TIME_ZONE;
+  if (!configured) {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  }
+  if (!isValidTimeZone(configured)) {
+    throw new Error(`Unsupported DEFAULT_TIME_ZONE "${configured}". Use an IANA zone name, e.g. Europe/Berlin.`);
+  }
+  return configured;
+}
+
+function getParts(timestamp: number, timeZone: string): ZonedDateTime & { second: number } {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(timestamp))) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    second: parseInt(parts.second, 10),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+}
+
+/**
+ * What the clock on the wall shows in the time zone at the given instant
+ */
+export function toZonedDateTime(timestamp: number, timeZone: string): ZonedDateTime {
+  const { second, ...zoned } = getParts(timestamp, timeZone);
+  return zoned;
+}
+
+/**
+ * How far the time zone is ahead of UTC at the given instant, in milliseconds
+ */
+function getOffset(timestamp: number, timeZone: string): number {
+  const parts = getParts(timestamp, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time in the time zone happens. Times skipped by a daylight saving change
+ * move forward by the length of the gap; times that happen twice resolve to the first.
+ */
+export function fromZonedDateTime(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): number {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // Offset changes are far apart, so the offsets half a day either side cover both sides of any change
+  const offsetBefore = getOffset(wallClock - HALF_DAY, timeZone);
+  const offsetAfter = getOffset(wallClock + HALF_DAY, timeZone);
+
+  const matches = [wallClock - offsetBefore, wallClock - offsetAfter]
+    .filter(candidate => candidate + getOffset(candidate, timeZone) === wallClock);
+  return matches.length > 0 ? Math.min(...matches) : wallClock - offsetBefore;
+}
+
+/**
+ * The calendar date a number of days after the given one
+ */
+export function addDays(date: Pick<ZonedDateTime, 'year' | 'month' | 'day'>, days: number): Pick<ZonedDateTime, 'year' | 'month' | 'day' | 'weekday'> {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+    weekday: shifted.getUTCDay()
+  };
+}
@@ -0,0 +1,246 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { configureFakeProvider, startApp, parseSse, postJson, readSse, TestServer } from './helpers/testServer';
+
+const LONG_STORY = 'Once upon a time there was a very long story that nobody ever got to hear the end of, because it kept going on and on.';
+
+configureFakeProvider([
+  { match: 'hello', response: 'Hey there, nice to meet you!' },
+  { match: 'remember', response: 'Got it, I will remember that.' },
+  { match: 'promoted', response: '[mood:excited] [widen_eyes] No way, that is amazing! [nod] You totally deserve it.' },
+  { match: 'slowly', response: 'This reply takes its time to arrive in full.', tokenDelayMs: 30 },
+  { match: 'story', response: LONG_STORY, tokenDelayMs: 40 }
+], {
+  STREAM_ABANDON_GRACE_MS: '100'
+});
+
+let server: TestServer;
+let api: string;
+
+before(async () => {
+  server = await startApp();
+  api = `${server.baseUrl}/api`;
+});
+
+after(async () => {
+  await server.close();
+});
+
+const chat = (body: Record<string, unknown>) =>
+  ({ personality: 'default', mood: 50, ...body });
+
+test('POST /agent/chat returns the scripted reply as JSON', async () => {
+  const res = await postJson(`${api}/agent/chat`, chat({ message: 'hello bot' }));
+  assert.equal(res.status, 200);
+
+  const body = await res.json() as any;
+  assert.equal(body.message, 'Hey there, nice to meet you!');
+  assert.equal(body.personality, 'default');
+  assert.equal(body.model, 'fake:scripted');
+  assert.equal(body.provider, 'fake');
+  assert.equal(typeof body.responseTime, 'number');
+});
+
+test('JSON replies carry the spoken text, mood and gestures parsed from the tags', async () => {
+  const res = await postJson(`${api}/agent/chat`, chat({ message: 'I got promoted' }));
+  const body = await res.json() as any;
+
+  assert.equal(body.message, '[mood:excited] [widen_eyes] No way, that is amazing! [nod] You totally deserve it.');
+  assert.equal(body.spokenText, 'No way, that is amazing! You totally deserve it.');
+  assert.equal(body.mood, 'excited');
+  assert.deepEqual(body.gestures, [
+    { tag: 'widen_eyes', charOffset: 0 },
+    { tag: 'nod', charOffset: 25 }
+  ]);
+});
+
+test('unscripted messages get the fake echo reply', async () => {
+  const res = await postJson(`${api}/agent/chat`, chat({ message: 'something else' }));
+  const body = await res.json() as any;
+  assert.equal(body.message, 'Fake reply to: something else');
+});
+
+test('POST /agent/chat streams start, chunk and end events over SSE', async () => {
+  const res = await postJson(`${api}/agent/chat`, chat({ message: 'hello again' }), {
+    Accept: 'text/event-stream'
+  });
+  assert.equal(res.status, 200);
+  assert.match(res.headers.get('content-type') || '', /text\/event-stream/);
+
+  const events = parseSse(await res.text()).map(event => event.data);
+  assert.equal(events[0].type, 'start');
+  assert.equal(events[events.length - 1].type, 'end');
+  assert.equal(events[events.length - 1].metadata.provider, 'fake');
+
+  const text = events.filter(event => event.type === 'chunk').map(event => event.content).join('');
+  assert.equal(text, 'Hey there, nice to meet you!');
+});
+
+test('SSE events carry event names, sequential ids, mood, gestures and sentences', async () => {
+  const res = await postJson(`${api}/agent/chat`, chat({ message: 'I just got promoted!' }), {
+    Accept: 'text/event-stream'
+  });
+  const events = parseSse(await res.text());
+
+  events.forEach((event, index) => {
+    assert.equal(event.id, String(index + 1));
+    assert.equal(event.event, event.data.type);
+  });
+
+  const ofType = (type: string) => events.filter(event => event.event === type).map(event => event.data);
+  assert.deepEqual(ofType('mood').map(event => event.mood), ['excited']);
+  assert.deepEqual(ofType('gesture').map(event => event.gesture), [
+    { tag: 'widen_eyes', charOffset: 0 },
+    { tag: 'nod', charOffset: 25 }
+  ]);
+  assert.deepEqual(ofType('sentence').map(event => event.content), [
+    'No way, that is amazing!',
+    'You totally deserve it.'
+  ]);
+
+  const end = ofType('end')[0];
+  assert.equal(end.spokenText, 'No way, that is amazing! You totally deserve it.');
+  assert.equal(end.mood, 'excited');
+  assert.deepEqual(end.gestures, ofType('gesture').map(event => event.gesture));
+
+  // Sentences are sent as soon as they are complete, before the reply has finished
+  const firstSentence = events.findIndex(event => event.event === 'sentence');
+  const lastChunk = events.map(event => event.event).lastIndexOf('chunk');
+  assert.ok(firstSentence < lastChunk);
+});
+
+test('a finished stream can be replayed after Last-Event-ID', async () => {
+  const res = await postJson(`${api}/agent/chat`, chat({ message: 'hello there' }), {
+    Accept: 'text/event-stream'
+  });
+  const requestId = res.headers.get('x-request-id');
+  const original = parseSse(await res.text());
+  assert.ok(requestId);
+  assert.equal(original[0].data.metadata.requestId, requestId);
+
+  const resumed = await fetch(`${api}/agent/chat/stream/${requestId}`, { headers: { 'Last-Event-ID': '2' } });
+  assert.equal(resumed.status, 200);
+  assert.deepEqual(parseSse(await resumed.text()), original.slice(2));
+});
+
+test('a dropped stream resumes live from the last event the client saw', async () => {
+  const controller = new AbortController();
+  const res = await postJson(`${api}/agent/chat`, chat({ message: 'answer slowly' }), {
+    Accept: 'text/event-stream'
+  }, controller.signal);
+  const requestId = res.headers.get('x-request-id');
+
+  // Read until the first chunk arrives, then drop the connection
+  const seen = await readSse(res).until('chunk');
+  controller.abort();
+
+  const lastId = seen[seen.length - 1].id;
+  const resumed = await fetch(`${api}/agent/chat/stream/${requestId}?lastEventId=${lastId}`);
+  const rest = parseSse(await resumed.text());
+
+  assert.equal(Number(rest[0].id), Number(lastId) + 1);
+  assert.equal(rest[rest.length - 1].event, 'end');
+  const text = [...seen, ...rest].filter(event => event.event === 'chunk').map(event => event.data.content).join('');
+  assert.equal(text, 'This reply takes its time to arrive in full.');
+});
+
+test('resuming an unknown stream returns 404', async () => {
+  const res = await fetch(`${api}/agent/chat/stream/does-not-exist`);
+  assert.equal(res.status, 404);
+  const body = await res.json() as any;
+  assert.equal(body.error, 'Stream not found or expired');
+});
+
+test('POST /agent/chat/:requestId/cancel stops the reply and keeps the partial turn', async () => {
+  const created = await postJson(`${api}/agent/session`, { userId: 'cancel-user' });
+  const { sessionId } = await created.json() as any;
+
+  const res = await postJson(`${api}/agent/chat?sessionId=${sessionId}`, chat({ message: 'tell me a story' }), {
+    Accept: 'text/event-stream'
+  });
+  const requestId = res.headers.get('x-request-id');
+  const stream = readSse(res);
+  const seen = await stream.until('chunk');
+
+  const cancel = await postJson(`${api}/agent/chat/${requestId}/cancel`, {});
+  assert.equal(cancel.status, 200);
+  assert.deepEqual(await cancel.json(), { requestId, cancelled: true });
+
+  const rest = await stream.rest();
+  const last = rest[rest.length - 1];
+  assert.equal(last.event, 'cancelled');
+  assert.equal(last.data.metadata.cancelReason, 'client_cancelled');
+  assert.ok(!rest.some(event => event.event === 'end'));
+
+  const partial = [...seen, ...rest].filter(event => event.event === 'chunk').map(event => event.data.content).join('');
+  assert.ok(partial.length > 0 && partial.length < LONG_STORY.length);
+
+  const messages = await (await fetch(`${api}/agent/session/${sessionId}/messages`)).json() as any;
+  assert.equal(messages.total, 2);
+  assert.equal(messages.messages[1].content, partial.trim());
+  assert.equal(messages.messages[1].cancelled, true);
+
+  // Already stopped
+  assert.equal((await postJson(`${api}/agent/chat/${requestId}/cancel`, {})).status, 404);
+});
+
+test('a stream nobody resumes within the grace period is aborted', async () => {
+  const controller = new AbortController();
+  const res = await postJson(`${api}/agent/chat`, chat({ message: 'another story please' }), {
+    Accept: 'text/event-stream'
+  }, controller.signal);
+  const requestId = res.headers.get('x-request-id');
+  await readSse(res).until('chunk');
+  controller.abort();
+
+  await new Promise(resolve => setTimeout(resolve, 400));
+
+  const resumed = parseSse(await (await fetch(`${api}/agent/chat/stream/${requestId}`)).text());
+  const last = resumed[resumed.length - 1];
+  assert.equal(last.event, 'cancelled');
+  assert.equal(last.data.metadata.cancelReason, 'client_disconnected');
+});
+
+test('cancelling an unknown request returns 404', async () => {
+  const res = await postJson(`${api}/agent/chat/does-not-exist/cancel`, {});
+  assert.equal(res.status, 404);
+});
+
+test('chat turns are saved to the session given in the query string', async () => {
+  const created = await postJson(`${api}/agent/session`, { userId: 'chat-user' });
+  const { sessionId } = await created.json() as any;
+
+  await postJson(`${api}/agent/chat?sessionId=${sessionId}`, chat({ message: 'remember my name is Sam', userId: 'chat-user' }));
+
+  const res = await fetch(`${api}/agent/session/${sessionId}/messages`);
+  const body = await res.json() as any;
+  assert.equal(body.total, 2);
+  assert.deepEqual(body.messages.map((message: any) => message.role), ['user', 'assistant']);
+  assert.equal(body.messages[1].content, 'Got it, I will remember that.');
+});
+
+test('validateChatRequest rejects bad requests with 400', async () => {
+  const cases: Array<[Record<string, unknown>, RegExp]> = [
+    [{ personality: 'default', mood: 50 }, /Missing required fields/],
+    [{ message: 'hi', personality: 'default' }, /Missing required fields/],
+    [chat({ message: 'hi', mood: 150 }), /Mood must be between 0 and 100/],
+    [chat({ message: 'hi', personality: 'pirate' }), /Invalid personality mode/],
+    [chat({ message: 'hi', conversationHistory: 'nope' }), /conversationHistory must be an array/],
+    [chat({ message: 'hi', conversationHistory: [{ role: 'system', content: 'x' }] }), /role must be "user" or "assistant"/],
+    [chat({ message: 'hi', provider: 'groq' }), /Model not available/]
+  ];
+
+  for (const [body, expected] of cases) {
+    const res = await postJson(`${api}/agent/chat`, body);
+    assert.equal(res.status, 400, JSON.stringify(body));
+    const { error } = await res.json() as any;
+    assert.match(error, expected);
+  }
+});
+
+test('GET /agent/models lists the fake provider as the default', async () => {
+  const res = await fetch(`${api}/agent/models`);
+  const body = await res.json() as any;
+  assert.equal(body.default, 'fake:scripted');
+  assert.equal(body.models[0].circuit, 'closed');
+});
@@ -0,0 +1,161 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import { once } from 'node:events';
+import { configureFakeProvider, startApp, postJson, connectSocket, TestServer } from './helpers/testServer';
+import { sessionEvents } from '../src/services/sessionEvents';
+
+configureFakeProvider([
+  { match: 'hello', response: '[mood:happy] Hi! Good to see you.' },
+  { match: 'story', response: 'Once upon a time there was a story so long that it was interrupted before the end.', tokenDelayMs: 40 }
+]);
+
+let server: TestServer;
+let wsUrl: string;
+
+before(async () => {
+  server = await startApp();
+  wsUrl = `${server.baseUrl.replace('http', 'ws')}/api/agent/ws`;
+});
+
+after(async () => {
+  await server.close();
+});
+
+test('chat messages stream back as StreamChunks tagged with their requestId', async () => {
+  const socket = await connectSocket(`${wsUrl}?personality=roast&mood=70`);
+  const ready = await socket.waitFor(message => message.type === 'ready');
+  assert.equal(ready.personality, 'roast');
+  assert.equal(ready.mood, 70);
+
+  socket.send({ type: 'chat', message: 'hello there' });
+  const end = await socket.waitFor(message => message.type === 'end');
+  const turn = socket.messages.filter(message => message.requestId === end.requestId);
+
+  assert.equal(turn[0].type, 'start');
+  assert.equal(turn[0].metadata.personality, 'roast');
+  assert.deepEqual(turn.filter(message => message.type === 'mood').map(message => message.mood), ['happy']);
+  assert.equal(turn.filter(message => message.type === 'chunk').map(message => message.content).join(''), '[mood:happy] Hi! Good to see you.');
+  assert.equal(end.metadata.provider, 'fake');
+  socket.close();
+});
+
+test('settings change the personality and mood used for later messages', async () => {
+  const socket = await connectSocket(wsUrl);
+  socket.send({ type: 'settings', personality: 'hype', mood: 90 });
+  const settings = await socket.waitFor(message => message.type === 'settings');
+  assert.equal(settings.personality, 'hype');
+  assert.equal(settings.mood, 90);
+
+  socket.send({ type: 'chat', message: 'hello again' });
+  const start = await socket.waitFor(message => message.type === 'start');
+  assert.equal(start.metadata.personality, 'hype');
+
+  socket.send({ type: 'settings', mood: 500 });
+  const error = await socket.waitFor(message => message.type === 'error');
+  assert.equal(error.content, 'Mood must be between 0 and 100');
+  socket.close();
+});
+
+test('cancel stops the reply in progress and a new message interrupts it', async () => {
+  const created = await postJson(`${server.baseUrl}/api/agent/session`, { userId: 'socket-user' });
+  const { sessionId } = await created.json() as any;
+  const socket = await connectSocket(`${wsUrl}?sessionId=${sessionId}`);
+
+  socket.send({ type: 'chat', message: 'tell me a story' });
+  const first = await socket.waitFor(message => message.type === 'chunk');
+  socket.send({ type: 'cancel' });
+  const cancelled = await socket.waitFor(message => message.type === 'cancelled');
+  assert.equal(cancelled.requestId, first.requestId);
+  assert.equal(cancelled.metadata.cancelReason, 'client_cancelled');
+
+  // Barge in on a second story with a new message
+  socket.send({ type: 'chat', message: 'another story' });
+  const second = await socket.waitFor(message => message.type === 'chunk' && message.requestId !== first.requestId);
+  socket.send({ type: 'chat', message: 'hello' });
+  const interrupted = await socket.waitFor(message => message.type === 'cancelled' && message.requestId === second.requestId);
+  assert.ok(interrupted);
+  const end = await socket.waitFor(message => message.type === 'end');
+  assert.notEqual(end.requestId, second.requestId);
+
+  const res = await fetch(`${server.baseUrl}/api/agent/session/${sessionId}/messages`);
+  const body = await res.json() as any;
+  assert.deepEqual(body.messages.map((message: any) => !!message.cancelled), [false, true, false, true, false, false]);
+  socket.close();
+});
+
+test('a new message also drops the messages still waiting behind the reply in progress', async () => {
+  const socket = await connectSocket(`${wsUrl}?sessionId=queued-turns`);
+
+  socket.send({ type: 'chat', message: 'tell me a story' });
+  const first = await socket.waitFor(message => message.type === 'chunk');
+  socket.send({ type: 'chat', message: 'another story' });
+  socket.send({ type: 'chat', message: 'hello' });
+
+  const end = await socket.waitFor(message => message.type === 'end');
+  const cancelled = socket.messages.filter(message => message.type === 'cancelled').map(message => message.requestId);
+  assert.equal(cancelled.length, 2);
+  assert.equal(cancelled[0], first.requestId);
+  // The queued story never started
+  const dropped = cancelled[1];
+  assert.ok(!socket.messages.some(message => message.requestId === dropped && message.type !== 'cancelled'));
+  assert.ok(![first.requestId, dropped].includes(end.requestId));
+  socket.close();
+});
+
+test('server-pushed session messages reach the socket of that session', async () => {
+  const socket = await connectSocket(`${wsUrl}?sessionId=push-session`);
+  await socket.waitFor(message => message.type === 'ready');
+
+  const delivered = sessionEvents.publish('push-session', { type: 'message', content: 'Time to stretch!' });
+  assert.equal(delivered, 1);
+  const pushed = await socket.waitFor(message => message.type === 'message');
+  assert.equal(pushed.content, 'Time to stretch!');
+
+  socket.close();
+  await new Promise(resolve => setTimeout(resolve, 50));
+  assert.equal(sessionEvents.hasListeners('push-session'), false);
+});
+
+test('invalid messages are answered with error events', async () => {
+  const socket = await connectSocket(wsUrl);
+  socket.send('not json');
+  socket.send({ type: 'dance' });
+  socket.send({ type: 'chat', message: '' });
+  socket.send({ type: 'chat', message: { text: 'hi' } });
+  socket.send({ type: 'cancel' });
+
+  await socket.waitFor(() => socket.messages.filter(message => message.type === 'error').length === 5);
+  assert.deepEqual(socket.messages.filter(message => message.type === 'error').map(message => message.content), [
+    'Messages must be JSON',
+    'Unknown message type. Use one of: chat, cancel, settings',
+    'Missing required fields: message, personality, mood',
+    'message must be a string',
+    'No reply is being generated for this request'
+  ]);
+  socket.close();
+});
+
+test('a malformed frame closes only that socket', async () => {
+  const { port } = new URL(server.baseUrl);
+  const raw = net.connect(Number(port), '127.0.0.1');
+  await once(raw, 'connect');
+  raw.write([
+    'GET /api/agent/ws HTTP/1.1',
+    `Host: 127.0.0.1:${port}`,
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==',
+    'Sec-WebSocket-Version: 13',
+    '', ''
+  ].join('\r\n'));
+  const [handshake] = await once(raw, 'data');
+  assert.match(handshake.toString(), /^HTTP\/1\.1 101/);
+
+  // A masked text frame (all-zero mask) whose payload is not valid UTF-8
+  raw.write(Buffer.from([0x81, 0x82, 0, 0, 0, 0, 0xff, 0xfe]));
+  await once(raw, 'close');
+
+  const res = await fetch(`${server.baseUrl}/api/health`);
+  assert.equal(res.status, 200);
+});
@@ -0,0 +1,139 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AgentRequest, AgentResponse, DelayedAction } from '../src/types';
+import { ChatAgentService } from '../src/services/chatAgent';
+import { DelayedActionProcessor } from '../src/services/delayedActionProcessor';
+import { InMemoryDelayedActionStore } from '../src/services/delayedActionStore';
+
+/**
+ * A stand-in for ChatAgentService that answers every replayed request and records it
+ */
+function fakeAgent(reply = (request: AgentRequest): Partial<AgentResponse> => ({ message: `Done: ${request.message}` })) {
+  const requests: AgentRequest[] = [];
+  const agent = {
+    processMessage: async (request: AgentRequest) => {
+      requests.push(request);
+      return reply(request);
+    }
+  } as unknown as ChatAgentService;
+  return { agent, requests };
+}
+
+const recurring = (overrides: Partial<DelayedAction> = {}): DelayedAction => ({
+  id: 'every-minute',
+  sessionId: 'series-session',
+  personality: 'default',
+  mood: 50,
+  message: 'Tell me a joke',
+  executeAt: Date.now() - 1000,
+  createdAt: Date.now() - 60_000,
+  recurrence: '* * * * *',
+  timeZone: 'Europe/Berlin',
+  status: 'pending',
+  ...overrides
+});
+
+test('each run of a repeating action schedules the next one', async () => {
+  const store = new InMemoryDelayedActionStore();
+  const { agent, requests } = fakeAgent();
+  await store.add(recurring());
+
+  const processor = new DelayedActionProcessor(agent, store);
+  assert.equal(await processor.triggerManualProcess(), 1);
+  assert.deepEqual(requests.map(request => request.message), ['Tell me a joke']);
+
+  const actions = await store.listBySession('series-session');
+  assert.equal(actions.length, 2);
+  const next = actions.find(action => action.id !== 'every-minute') as DelayedAction;
+  assert.equal((await store.get('every-minute'))?.status, 'completed');
+  assert.equal(next.status, 'pending');
+  assert.equal(next.message, 'Tell me a joke');
+  assert.equal(next.recurrence, '* * * * *');
+  assert.equal(next.seriesId, 'every-minute');
+  assert.equal(next.timeZone, 'Europe/Berlin');
+  assert.ok(next.executeAt > Date.now() && next.executeAt <= Date.now() + 60_000);
+
+  // Not due yet, so a second pass leaves it alone
+  assert.equal(await processor.triggerManualProcess(), 0);
+});
+
+test('an interval series counts from the run it follows', async () => {
+  const store = new InMemoryDelayedActionStore();
+  const { agent } = fakeAgent();
+  const executeAt = Date.now() - 1000;
+  await store.add(recurring({ id: 'every-45', recurrence: '@every 45m', executeAt }));
+
+  await new DelayedActionProcessor(agent, store).triggerManualProcess();
+
+  const next = (await store.listBySession('series-session')).find(action => action.id !== 'every-45');
+  assert.equal(next?.executeAt, executeAt + 45 * 60 * 1000);
+  assert.equal(next?.recurrence, '@every 45m');
+});
+
+test('a series cancelled while an occurrence is claimed adds nothing more', async () => {
+  // The cancel lands between the claim and the next occurrence being added
+  class CancellingStore extends InMemoryDelayedActionStore {
+    async add(action: DelayedAction): Promise<void> {
+      await super.add(action);
+      if (action.id !== 'every-minute') {
+        await this.transition('every-minute', 'running', 'cancelled', { completedAt: Date.now() });
+      }
+    }
+  }
+  const store = new CancellingStore();
+  const { agent, requests } = fakeAgent();
+  await store.add(recurring({ seriesId: 'every-minute' }));
+
+  await new DelayedActionProcessor(agent, store).triggerManualProcess();
+
+  const actions = await store.listBySession('series-session');
+  assert.deepEqual(actions.map(action => action.status), ['cancelled', 'cancelled']);
+  // The claimed run still happens, but its reply is dropped rather than delivered
+  assert.equal(requests.length, 1);
+  assert.equal((await store.get('every-minute'))?.result, undefined);
+  assert.deepEqual(await store.listUndelivered('series-session'), []);
+});
+
+test('one-off actions and broken schedules do not repeat', async () => {
+  const store = new InMemoryDelayedActionStore();
+  const { agent } = fakeAgent();
+  await store.add(recurring({ id: 'once', recurrence: undefined }));
+  await store.add(recurring({ id: 'broken', recurrence: '0 25 * * *' }));
+
+  const processor = new DelayedActionProcessor(agent, store);
+  assert.equal(await processor.triggerManualProcess(), 2);
+
+  const actions = await store.listBySession('series-session');
+  assert.deepEqual(actions.map(action => [action.id, action.status]).sort(), [['broken', 'completed'], ['once', 'completed']]);
+});
+
+test('a cancelled turn fails the action', async () => {
+  const store = new InMemoryDelayedActionStore();
+  const { agent } = fakeAgent(() => ({ message: '', cancelled: true }));
+  await store.add(recurring({ id: 'cancelled', recurrence: undefined }));
+
+  const processor = new DelayedActionProcessor(agent, store);
+  assert.equal(await processor.triggerManualProcess(), 1);
+
+  const cancelled = await store.get('cancelled');
+  assert.equal(cancelled?.status, 'failed');
+  assert.equal(cancelled?.result, undefined);
+});
+
+test('actions left running by an earlier process fail on start', async () => {
+  const store = new InMemoryDelayedActionStore();
+  const { agent, requests } = fakeAgent();
+  await store.add(recurring({ id: 'interrupted', recurrence: undefined, status: 'running', startedAt: Date.now() - 60_000 }));
+
+  const processor = new DelayedActionProcessor(agent, store);
+  processor.start();
+  await processor.triggerManualProcess();
+  processor.stop();
+
+  const interrupted = await store.get('interrupted');
+  assert.equal(interrupted?.status, 'failed');
+  assert.equal(interrupted?.error, 'Interrupted by a server restart');
+  // Failed, not run again
+  assert.equal(requests.length, 0);
+  assert.deepEqual((await store.listUndelivered('series-session')).map(action => action.id), ['interrupted']);
+});
@@ -0,0 +1,120 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DelayedAction } from '../src/types';
+import { DelayedActionStore, InMemoryDelayedActionStore, SqliteDelayedActionStore } from '../src/services/delayedActionStore';
+
+const action = (id: string, executeAt: number, sessionId = 'session-1'): DelayedAction => ({
+  id,
+  sessionId,
+  personality: 'default',
+  mood: 50,
+  message: `Action ${id}`,
+  executeAt,
+  createdAt: 0,
+  status: 'pending'
+});
+
+const stores: Array<[string, () => DelayedActionStore]> = [
+  ['memory', () => new InMemoryDelayedActionStore()],
+  ['sqlite', () => new SqliteDelayedActionStore(':memory:')]
+];
+
+for (const [kind, createStore] of stores) {
+  test(`${kind}: due actions come oldest first and only while pending`, async () => {
+    const store = createStore();
+    await store.add(action('late', 300));
+    await store.add(action('early', 100));
+    await store.add(action('future', 10_000));
+
+    assert.deepEqual((await store.listDue(1000, 10)).map(due => due.id), ['early', 'late']);
+    assert.deepEqual((await store.listDue(1000, 1)).map(due => due.id), ['early']);
+
+    assert.equal(await store.transition('early', 'pending', 'running'), true);
+    assert.deepEqual((await store.listDue(1000, 10)).map(due => due.id), ['late']);
+  });
+
+  test(`${kind}: a status only changes from the expected one`, async () => {
+    const store = createStore();
+    await store.add(action('a', 100));
+
+    assert.equal(await store.transition('a', 'pending', 'running'), true);
+    // A second claim, or a cancel after the claim, loses
+    assert.equal(await store.transition('a', 'pending', 'running'), false);
+    assert.equal(await store.transition('a', 'pending', 'cancelled'), false);
+    assert.equal(await store.transition('missing', 'pending', 'running'), false);
+
+    assert.equal(await store.transition('a', 'running', 'completed', { result: 'Done', completedAt: 500 }), true);
+    const stored = await store.get('a');
+    assert.equal(stored?.status, 'completed');
+    assert.equal(stored?.result, 'Done');
+    assert.equal(stored?.completedAt, 500);
+    assert.equal(stored?.error, undefined);
+  });
+
+  test(`${kind}: finished actions are delivered once`, async () => {
+    const store = createStore();
+    await store.add(action('done', 100));
+    await store.add(action('failed', 200));
+    await store.add(action('waiting', 300));
+    await store.transition('failed', 'pending', 'running');
+    await store.transition('failed', 'running', 'failed', { error: 'Boom', completedAt: 400 });
+    await store.transition('done', 'pending', 'running');
+    await store.transition('done', 'running', 'completed', { result: 'Hi', completedAt: 500 });
+
+    assert.deepEqual((await store.listUndelivered('session-1')).map(stored => stored.id), ['failed', 'done']);
+    assert.equal(await store.markDelivered('waiting', 600), false);
+    assert.equal(await store.markDelivered('done', 600), true);
+    assert.equal(await store.markDelivered('done', 700), false);
+
+    assert.equal((await store.get('done'))?.deliveredAt, 600);
+    assert.deepEqual((await store.listUndelivered('session-1')).map(stored => stored.id), ['failed']);
+  });
+
+  test(`${kind}: repeating actions keep their schedule and series`, async () => {
+    const store = createStore();
+    await store.add({ ...action('a', 100), recurrence: '0 8 * * 1-5', seriesId: 'a', timeZone: 'Europe/Berlin' });
+
+    const stored = await store.get('a');
+    assert.equal(stored?.recurrence, '0 8 * * 1-5');
+    assert.equal(stored?.seriesId, 'a');
+    assert.equal(stored?.timeZone, 'Europe/Berlin');
+  });
+
+  test(`${kind}: sessions list their own actions and finished ones are cleaned up`, async () => {
+    const store = createStore();
+    await store.add(action('a', 100));
+    await store.add(action('b', 200));
+    await store.add(action('other', 100, 'session-2'));
+    await store.transition('a', 'pending', 'cancelled');
+
+    assert.deepEqual((await store.listBySession('session-1')).map(stored => stored.id), ['a', 'b']);
+
+    assert.equal(await store.deleteFinishedBefore(1), 1);
+    assert.deepEqual((await store.listBySession('session-1')).map(stored => stored.id), ['b']);
+    assert.equal(await store.get('a'), null);
+  });
+
+  test(`${kind}: running actions are listed by when they were claimed`, async () => {
+    const store = createStore();
+    await store.add(action('old', 100));
+    await store.add(action('new', 100));
+    await store.add(action('waiting', 100));
+    await store.transition('old', 'pending', 'running', { startedAt: 200 });
+    await store.transition('new', 'pending', 'running', { startedAt: 900 });
+
+    assert.deepEqual((await store.listRunningSince(500)).map(running => running.id), ['old']);
+    assert.equal((await store.get('new'))?.startedAt, 900);
+  });
+
+  test(`${kind}: retention counts from when an action finished, not when it was created`, async () => {
+    const store = createStore();
+    // Scheduled long ago, finished just now and not delivered yet
+    await store.add(action('late', 5000));
+    await store.transition('late', 'pending', 'running');
+    await store.transition('late', 'running', 'completed', { result: 'Hi', completedAt: 5000 });
+
+    assert.equal(await store.deleteFinishedBefore(1000), 0);
+    assert.deepEqual((await store.listUndelivered('session-1')).map(stored => stored.id), ['late']);
+    assert.equal(await store.deleteFinishedBefore(6000), 1);
+  });
+}
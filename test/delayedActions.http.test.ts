@@ -0,0 +1,239 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { configureFakeProvider, startApp, postJson, connectSocket, readSse, TestServer } from './helpers/testServer';
+
+let server: TestServer;
+let api: string;
+
+before(async () => {
+  configureFakeProvider([
+    {
+      match: 'Break the model',
+      error: { status: 400, message: 'Model exploded' }
+    },
+    {
+      match: 'flaky',
+      toolCalls: [{ name: 'delayed_action', args: { input: 'Water the plants in 10 minutes' } }],
+      error: { status: 503, message: 'Service unavailable' }
+    },
+    {
+      match: 'broken',
+      toolCalls: [{ name: 'delayed_action', args: { input: 'Break the model in 0 seconds' } }],
+      response: '{{toolResult}}'
+    },
+    {
+      match: 'every weekday',
+      toolCalls: [{ name: 'delayed_action', args: { input: 'Tell me the news every weekday at 8' } }],
+      response: '{{toolResult}}'
+    },
+    {
+      match: 'in \\d+ (seconds|minutes)',
+      toolCalls: [{ name: 'delayed_action', args: { input: 'Tell me a joke in 0 seconds' } }],
+      response: 'Sure! {{toolResult}}'
+    },
+    {
+      match: 'remind',
+      toolCalls: [{ name: 'delayed_action', args: { input: 'Remind me to stretch in 10 minutes' } }],
+      response: '{{toolResult}}'
+    },
+    {
+      match: 'joke',
+      response: '[mood:happy] Why did the avatar cross the road? [smile] To get to the other frame.'
+    }
+  ]);
+
+  server = await startApp();
+  api = `${server.baseUrl}/api`;
+});
+
+after(async () => {
+  await server.close();
+});
+
+const listActions = async (sessionId: string) => {
+  const res = await fetch(`${api}/delayed/session/${sessionId}`);
+  assert.equal(res.status, 200);
+  return (await res.json() as any).actions;
+};
+
+test('a scheduled request is stored for the session that asked for it', async () => {
+  const res = await postJson(`${api}/agent/chat?sessionId=schedule-session`, {
+    message: 'tell me a joke in 5 minutes',
+    personality: 'hype',
+    mood: 80,
+    userId: 'user-1'
+  });
+  assert.equal(res.status, 200);
+  const body = await res.json() as any;
+  assert.match(body.message, /Scheduled for 0 seconds from now\. I'll handle: "Tell me a joke"/);
+
+  const actions = await listActions('schedule-session');
+  assert.equal(actions.length, 1);
+  assert.equal(actions[0].message, 'Tell me a joke');
+  assert.equal(actions[0].status, 'pending');
+  assert.equal(actions[0].personality, 'hype');
+  assert.equal(actions[0].mood, 80);
+  assert.equal(actions[0].userId, 'user-1');
+});
+
+test('due actions are replayed through the agent and pushed to the session as a streamed reply', async () => {
+  await postJson(`${api}/agent/chat?sessionId=push-delayed`, { message: 'joke in 1 seconds', personality: 'default', mood: 50 });
+  const socket = await connectSocket(`${server.baseUrl.replace('http', 'ws')}/api/agent/ws?sessionId=push-delayed`);
+  await socket.waitFor(message => message.type === 'ready');
+
+  const res = await postJson(`${api}/delayed/trigger`, {});
+  assert.equal(res.status, 200);
+  assert.ok((await res.json() as any).processed >= 1);
+
+  const end = await socket.waitFor(message => message.type === 'end');
+  const reply = socket.messages.filter(message => message.requestId === end.requestId);
+  assert.deepEqual(reply.map(message => message.type), ['start', 'chunk', 'mood', 'sentence', 'gesture', 'sentence', 'end']);
+  assert.equal(reply[0].scheduled.request, 'Tell me a joke');
+  assert.equal(reply[0].metadata.requestId, end.requestId);
+  assert.equal(end.spokenText, 'Why did the avatar cross the road? To get to the other frame.');
+  assert.equal(end.mood, 'happy');
+  assert.deepEqual(end.gestures.map((gesture: any) => gesture.tag), ['smile']);
+  socket.close();
+
+  const [action] = await listActions('push-delayed');
+  assert.equal(action.status, 'completed');
+  assert.match(action.result, /To get to the other frame/);
+  assert.ok(action.completedAt);
+  assert.ok(action.deliveredAt);
+
+  // The replayed turn is part of the session's conversation
+  const messages = await fetch(`${api}/agent/session/push-delayed/messages`).then(r => r.json()) as any;
+  assert.ok(messages.messages.some((message: any) => message.role === 'user' && message.content === 'Tell me a joke'));
+});
+
+test('replies finished while the client was away are queued and sent once it connects', async () => {
+  await postJson(`${api}/agent/chat?sessionId=offline-session`, { message: 'joke in 1 seconds', personality: 'hype', mood: 50 });
+  await postJson(`${api}/delayed/trigger`, {});
+
+  const [queued] = await listActions('offline-session');
+  assert.equal(queued.status, 'completed');
+  assert.equal(queued.deliveredAt, undefined);
+
+  const controller = new AbortController();
+  const res = await fetch(`${api}/delayed/stream/offline-session`, { signal: controller.signal });
+  assert.equal(res.status, 200);
+  assert.equal(res.headers.get('content-type'), 'text/event-stream');
+
+  const events = await readSse(res).until('end');
+  assert.deepEqual(events.map(event => event.event), ['start', 'chunk', 'mood', 'sentence', 'gesture', 'sentence', 'end']);
+  assert.deepEqual(events.map(event => Number(event.id)), [1, 2, 3, 4, 5, 6, 7]);
+  assert.equal(events[0].data.scheduled.actionId, queued.id);
+  assert.equal(events[0].data.metadata.personality, 'hype');
+  assert.match(events[1].data.content, /Why did the avatar cross the road/);
+  controller.abort();
+
+  const [delivered] = await listActions('offline-session');
+  assert.ok(delivered.deliveredAt);
+});
+
+test('an open stream receives replies as their actions run', async () => {
+  await postJson(`${api}/agent/chat?sessionId=live-session`, { message: 'joke in 1 seconds', personality: 'default', mood: 50 });
+
+  const controller = new AbortController();
+  const res = await fetch(`${api}/delayed/stream/live-session`, { signal: controller.signal });
+  const stream = readSse(res);
+
+  await postJson(`${api}/delayed/trigger`, {});
+  const events = await stream.until('end');
+  assert.equal(events[0].event, 'start');
+  assert.equal(events[events.length - 1].data.mood, 'happy');
+  controller.abort();
+});
+
+test('repeating requests are stored with their schedule and the user\'s time zone', async () => {
+  const res = await postJson(`${api}/agent/chat?sessionId=recurring-session`, {
+    message: 'news every weekday please',
+    personality: 'default',
+    mood: 50,
+    timeZone: 'America/New_York'
+  });
+  const body = await res.json() as any;
+  assert.match(body.message, /Scheduled for \w+day, \w+ \d+, 8:00 AM EDT, then repeating on the schedule "0 8 \* \* 1-5"/);
+
+  const [action] = await listActions('recurring-session');
+  assert.equal(action.message, 'Tell me the news');
+  assert.equal(action.recurrence, '0 8 * * 1-5');
+  assert.equal(action.seriesId, action.id);
+  assert.equal(action.timeZone, 'America/New_York');
+
+  // Cancelling stops the whole series, once
+  const cancelled = await fetch(`${api}/delayed/${action.id}`, { method: 'DELETE' });
+  assert.equal(cancelled.status, 200);
+  const series = await cancelled.json() as any;
+  assert.equal(series.status, 'cancelled');
+  assert.equal(series.cancelledOccurrences, 1);
+
+  const again = await fetch(`${api}/delayed/${action.id}`, { method: 'DELETE' });
+  assert.equal(again.status, 409);
+});
+
+test('an unknown time zone is rejected', async () => {
+  const res = await postJson(`${api}/agent/chat?sessionId=bad-zone`, {
+    message: 'joke in 1 seconds',
+    personality: 'default',
+    mood: 50,
+    timeZone: 'Mars/Olympus'
+  });
+  assert.equal(res.status, 400);
+  assert.match((await res.json() as any).error, /timeZone must be an IANA time zone name/);
+});
+
+test('an action whose turn fails is stored and delivered as failed', async () => {
+  await postJson(`${api}/agent/chat?sessionId=failing-session`, { message: 'do something broken', personality: 'default', mood: 50 });
+  await postJson(`${api}/delayed/trigger`, {});
+
+  const [action] = await listActions('failing-session');
+  assert.equal(action.status, 'failed');
+  assert.match(action.error, /Model exploded/);
+  assert.equal(action.result, undefined);
+
+  const controller = new AbortController();
+  const res = await fetch(`${api}/delayed/stream/failing-session`, { signal: controller.signal });
+  const events = await readSse(res).until('error');
+  assert.deepEqual(events.map(event => event.event), ['start', 'error']);
+  controller.abort();
+});
+
+test('a provider error after the tool ran does not schedule the action again', async () => {
+  const res = await postJson(`${api}/agent/chat?sessionId=flaky-session`, { message: 'something flaky', personality: 'default', mood: 50 });
+  assert.equal(res.status, 200);
+
+  const actions = await listActions('flaky-session');
+  assert.deepEqual(actions.map((action: any) => action.message), ['Water the plants']);
+});
+
+test('nothing is scheduled without a session', async () => {
+  const res = await postJson(`${api}/agent/chat`, { message: 'joke in 1 seconds', personality: 'default', mood: 50 });
+  const body = await res.json() as any;
+  assert.match(body.message, /only schedule things within a saved conversation/);
+});
+
+test('pending actions can be cancelled, once', async () => {
+  await postJson(`${api}/agent/chat?sessionId=cancel-session`, { message: 'remind me later', personality: 'default', mood: 50 });
+  const [action] = await listActions('cancel-session');
+  assert.equal(action.message, 'Remind me to stretch');
+  assert.ok(new Date(action.executeAt).getTime() > Date.now() + 9 * 60 * 1000);
+
+  const cancelled = await fetch(`${api}/delayed/${action.id}`, { method: 'DELETE' });
+  assert.equal(cancelled.status, 200);
+  assert.equal((await cancelled.json() as any).status, 'cancelled');
+
+  const again = await fetch(`${api}/delayed/${action.id}`, { method: 'DELETE' });
+  assert.equal(again.status, 409);
+
+  const missing = await fetch(`${api}/delayed/no-such-action`, { method: 'DELETE' });
+  assert.equal(missing.status, 404);
+});
+
+test('GET /delayed/status reports the processor and store', async () => {
+  const res = await fetch(`${api}/delayed/status`);
+  assert.equal(res.status, 200);
+  const status = await res.json() as any;
+  assert.equal(status.isRunning, false);
+  assert.equal(status.store, 'memory');
+});
@@ -0,0 +1,29 @@
+#!/usr/bin/env node
+// Stands in for espeak-ng in tests: writes a WAV to the -w path whose samples are the text read
+// from stdin, so tests can check what was spoken and how (the arguments are stored in a LIST chunk).
+const fs = require('fs');
+
+// A hung engine, for the timeout
+if (process.env.FAKE_ESPEAK_HANG) {
+  setInterval(() => {}, 1000);
+  return;
+}
+
+const args = process.argv.slice(2);
+const valueOf = (flag) => args[args.indexOf(flag) + 1];
+
+const text = Buffer.from(fs.readFileSync(0, 'utf8'));
+const settings = Buffer.from(['-v', '-s', '-p'].map(flag => `${flag} ${valueOf(flag)}`).join(' '));
+const header = Buffer.alloc(12);
+header.write('RIFF', 0);
+header.writeUInt32LE(4 + 8 + settings.length + 8 + text.length, 4);
+header.write('WAVE', 8);
+
+const chunk = (id, data) => {
+  const head = Buffer.alloc(8);
+  head.write(id, 0);
+  head.writeUInt32LE(data.length, 4);
+  return Buffer.concat([head, data]);
+};
+
+fs.writeFileSync(valueOf('-w'), Buffer.concat([header, chunk('LIST', settings), chunk('data', text)]));
@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+// Stands in for the rhubarb binary in tests: writes fixed mouth cues to the -o path in the -f format
+// and, when FAKE_RHUBARB_LOG is set, records the arguments and dialog text it got.
+const fs = require('fs');
+
+const args = process.argv.slice(2);
+const valueOf = (flag) => {
+  const index = args.indexOf(flag);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const dialogFile = valueOf('--dialogFile');
+if (process.env.FAKE_RHUBARB_LOG) {
+  fs.writeFileSync(process.env.FAKE_RHUBARB_LOG, JSON.stringify({
+    args,
+    dialog: dialogFile ? fs.readFileSync(dialogFile, 'utf8') : null
+  }));
+}
+
+const cues = [
+  { start: 0, end: 0.2, value: 'X' },
+  { start: 0.2, end: 0.8, value: 'B' },
+  { start: 0.8, end: 1.4, value: 'C' },
+  { start: 1.4, end: 2, value: 'X' },
+  { start: 2, end: 2.6, value: 'D' },
+  { start: 2.6, end: 3, value: 'X' }
+];
+const soundFile = args[args.length - 1];
+const time = (seconds) => seconds.toFixed(2);
+
+const outputs = {
+  json: () => JSON.stringify({ metadata: { soundFile, duration: 3 }, mouthCues: cues }),
+  tsv: () => [...cues.map(cue => `${time(cue.start)}\t${cue.value}`), `${time(3)}\tX`].join('\n') + '\n',
+  xml: () => [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<rhubarbResult>',
+    `  <metadata><soundFile>${soundFile}</soundFile><duration>${time(3)}</duration></metadata>`,
+    '  <mouthCues>',
+    ...cues.map(cue => `    <mouthCue start="${time(cue.start)}" end="${time(cue.end)}">${cue.value}</mouthCue>`),
+    '  </mouthCues>',
+    '</rhubarbResult>'
+  ].join('\n'),
+  dat: () => {
+    const frameRate = parseInt(valueOf('--datFrameRate'), 10);
+    const frame = (seconds) => Math.round(seconds * frameRate) + 1;
+    return ['MohoSwitch1', ...cues.map(cue => `${frame(cue.start)} ${cue.value}`), `${frame(3)} X`].join('\n') + '\n';
+  }
+};
+
+fs.writeFileSync(valueOf('-o'), outputs[valueOf('-f')]());
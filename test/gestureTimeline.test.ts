@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseGestureTags } from '../src/services/gestures';
+import { buildGestureTimeline, estimateWordTimings } from '../src/services/gestureTimeline';
+
+const mouthCues = [
+  { start: 0, end: 0.2, value: 'X' },
+  { start: 0.2, end: 0.8, value: 'B' },
+  { start: 0.8, end: 1.4, value: 'C' },
+  { start: 1.4, end: 2, value: 'X' },
+  { start: 2, end: 2.6, value: 'D' },
+  { start: 2.6, end: 3, value: 'X' }
+];
+
+test('words are spread over the speaking segments and skip the pauses', () => {
+  const words = estimateWordTimings('Hello there. See you.', mouthCues, 3);
+
+  assert.deepEqual(words, [
+    { word: 'Hello', charOffset: 0, start: 0.2, end: 0.8 },
+    { word: 'there.', charOffset: 6, start: 0.8, end: 1.4 },
+    { word: 'See', charOffset: 13, start: 2, end: 2.3 },
+    { word: 'you.', charOffset: 17, start: 2.3, end: 2.6 }
+  ]);
+});
+
+test('the mood fires at the start and each gesture with the word it precedes', () => {
+  const timeline = buildGestureTimeline(parseGestureTags('[mood:happy] [smile] Hello there. [nod] See you.'), mouthCues, 3);
+
+  assert.equal(timeline.spokenText, 'Hello there. See you.');
+  assert.deepEqual(timeline.events, [
+    { time: 0, type: 'mood', tag: 'happy', charOffset: 0 },
+    { time: 0.2, type: 'gesture', tag: 'smile', charOffset: 0 },
+    { time: 2, type: 'gesture', tag: 'nod', charOffset: 13 }
+  ]);
+});
+
+test('without speech cues the words fill the whole clip', () => {
+  const words = estimateWordTimings('Yes no', [{ start: 0, end: 1, value: 'X' }], 1);
+
+  assert.deepEqual(words.map(({ start, end }) => [start, end]), [[0, 0.5], [0.5, 1]]);
+});
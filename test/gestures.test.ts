@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseGestureTags } from '../src/services/gestures';
+
+test('a well-formed reply is split into spoken text, mood and gesture offsets', () => {
+  const parsed = parseGestureTags("[mood:calm] [think] That would be the Burj Khalifa. [nod] It's tall, [widen_eyes] really tall.");
+
+  assert.equal(parsed.spokenText, "That would be the Burj Khalifa. It's tall, really tall.");
+  assert.equal(parsed.mood, 'calm');
+  assert.deepEqual(parsed.gestures, [
+    { tag: 'think', charOffset: 0 },
+    { tag: 'nod', charOffset: 32 },
+    { tag: 'widen_eyes', charOffset: 43 }
+  ]);
+  assert.deepEqual(parsed.repairs, []);
+});
+
+test('a missing or unknown mood tag falls back to the default mood', () => {
+  assert.equal(parseGestureTags('Just words.').mood, 'calm');
+  assert.deepEqual(parseGestureTags('Just words.').repairs, [{ type: 'missing_mood' }]);
+
+  const unknown = parseGestureTags('[mood:furious] Calm down.', 'serious');
+  assert.equal(unknown.mood, 'serious');
+  assert.equal(unknown.spokenText, 'Calm down.');
+  assert.deepEqual(unknown.repairs, [{ type: 'unknown_mood', tag: 'furious' }]);
+});
+
+test('stacked, unknown, trailing and misplaced tags are repaired', () => {
+  const parsed = parseGestureTags('[mood:happy] [smile] [nod] Sure thing, [dance] pal. [mood:sad] Bye! [wink]');
+
+  assert.equal(parsed.spokenText, 'Sure thing, pal. Bye!');
+  assert.equal(parsed.mood, 'happy');
+  assert.deepEqual(parsed.gestures, [{ tag: 'nod', charOffset: 0 }]);
+  assert.deepEqual(parsed.repairs, [
+    { type: 'stacked_tags', dropped: 'smile' },
+    { type: 'unknown_tag', tag: 'dance' },
+    { type: 'misplaced_mood', tag: 'sad' },
+    { type: 'trailing_tag', tag: 'wink' }
+  ]);
+});
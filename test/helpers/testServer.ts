@@ -0,0 +1,248 @@
+import http from 'http';
+import { once } from 'events';
+import { AddressInfo } from 'net';
+import type { FakeScriptRule } from '../../src/services/fakeChatModel';
+
+export interface TestServer {
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+export interface StubRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export type StubHandler = (request: StubRequest) => { status?: number; body?: unknown };
+
+export interface StubServer extends TestServer {
+  requests: StubRequest[];
+}
+
+/**
+ * Point the app at the scripted fake model. Must run before the app is imported,
+ * since the model registry reads the environment when the routes are loaded.
+ */
+export function configureFakeProvider(script: FakeScriptRule[], env: Record<string, string> = {}): void {
+  Object.assign(process.env, {
+    NODE_ENV: 'test',
+    AI_PROVIDER: 'fake',
+    FAKE_MODEL_SCRIPT: JSON.stringify(script),
+    SESSION_STORE: 'memory',
+    DELAYED_ACTION_STORE: 'memory',
+    // Set but empty, so a local .env cannot register real providers
+    GROQ_API_KEY: '',
+    OPENAI_API_KEY: '',
+    GOOGLE_API_KEY: '',
+    LOCAL_MODEL_BASE_URL: '',
+    BRAVE_API_KEY: '',
+    MODEL_RETRY_BASE_DELAY_MS: '1',
+    ...env
+  });
+
+  // The request/response logger is very chatty; TEST_LOGS=1 brings it back
+  if (!process.env.TEST_LOGS) {
+    console.log = () => {};
+    console.warn = () => {};
+    console.error = () => {};
+  }
+}
+
+async function listen(server: http.Server): Promise<TestServer> {
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => (error ? reject(error) : resolve()));
+    })
+  };
+}
+
+export async function startApp(): Promise<TestServer> {
+  const { default: app } = await import('../../src/app');
+  const { attachChatSocket } = await import('../../src/routes/chatSocket');
+  const server = http.createServer(app);
+  const wss = attachChatSocket(server);
+
+  const listening = await listen(server);
+  return {
+    baseUrl: listening.baseUrl,
+    close: async () => {
+      // Upgraded sockets are no longer tracked by the HTTP server
+      wss.clients.forEach(client => client.terminate());
+      await listening.close();
+    }
+  };
+}
+
+/**
+ * A tiny stand-in for a third-party API. Routes are keyed by "METHOD /path"; every request is recorded.
+ */
+export async function startStubServer(routes: Record<string, StubHandler>): Promise<StubServer> {
+  const requests: StubRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://stub');
+      const request: StubRequest = {
+        method: req.method || 'GET',
+        path: url.pathname,
+        query: url.searchParams,
+        headers: req.headers,
+        body
+      };
+      requests.push(request);
+
+      const handler = routes[`${request.method} ${request.path}`];
+      const result = handler ? handler(request) : { status: 404, body: { error: 'no stub route' } };
+      // Buffers are sent as is, for APIs that answer with audio or other binary data
+      if (Buffer.isBuffer(result.body)) {
+        res.writeHead(result.status ?? 200, { 'Content-Type': 'application/octet-stream' });
+        res.end(result.body);
+        return;
+      }
+      res.writeHead(result.status ?? 200, { 'Content-Type': 'application/json' });
+      res.end(result.body === undefined ? '' : JSON.stringify(result.body));
+    });
+  });
+
+  return { ...(await listen(server)), requests };
+}
+
+export interface SseEvent {
+  event?: string;
+  id?: string;
+  data: any;
+}
+
+/**
+ * Split a complete text/event-stream body into parsed events
+ */
+export function parseSse(body: string): SseEvent[] {
+  return body
+    .split('\n\n')
+    .filter(block => block.trim())
+    .map(block => {
+      const event: SseEvent = { data: undefined };
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        const separator = line.indexOf(':');
+        const field = line.slice(0, separator);
+        const value = line.slice(separator + 1).replace(/^ /, '');
+        if (field === 'data') data.push(value);
+        else if (field === 'event') event.event = value;
+        else if (field === 'id') event.id = value;
+      }
+      event.data = JSON.parse(data.join('\n'));
+      return event;
+    });
+}
+
+export interface SseReader {
+  // Events received up to and including the first one of this type
+  until(eventType: string): Promise<SseEvent[]>;
+  // Every remaining event, once the server ends the response
+  rest(): Promise<SseEvent[]>;
+}
+
+/**
+ * Read a live SSE response incrementally, e.g. to act mid-stream
+ */
+export function readSse(res: Response): SseReader {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  const take = (upTo: number): SseEvent[] => {
+    const complete = buffered.slice(0, upTo);
+    buffered = buffered.slice(upTo);
+    return parseSse(complete);
+  };
+
+  return {
+    async until(eventType) {
+      while (true) {
+        const match = buffered.match(new RegExp(`event: ${eventType}\\n[^]*?\\n\\n`));
+        if (match) {
+          return take(match.index! + match[0].length);
+        }
+        const { value, done } = await reader.read();
+        if (done) {
+          throw new Error(`Stream ended without a ${eventType} event`);
+        }
+        buffered += decoder.decode(value, { stream: true });
+      }
+    },
+    async rest() {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) {
+          return take(buffered.length);
+        }
+        buffered += decoder.decode(value, { stream: true });
+      }
+    }
+  };
+}
+
+export async function postJson(url: string, body: unknown, headers: Record<string, string> = {}, signal?: AbortSignal): Promise<Response> {
+  return fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal
+  });
+}
+
+export interface TestSocket {
+  messages: any[];
+  send(message: unknown): void;
+  // Resolves with the first received message (past or future) matching the predicate
+  waitFor(predicate: (message: any) => boolean, timeoutMs?: number): Promise<any>;
+  close(): void;
+}
+
+/**
+ * Open a WebSocket to the app and record every JSON message it receives
+ */
+export async function connectSocket(url: string): Promise<TestSocket> {
+  const { WebSocket } = await import('ws');
+  const socket = new WebSocket(url);
+  const messages: any[] = [];
+  const waiters: Array<() => void> = [];
+
+  socket.on('message', data => {
+    messages.push(JSON.parse(data.toString()));
+    waiters.splice(0).forEach(wake => wake());
+  });
+  await once(socket, 'open');
+
+  return {
+    messages,
+    // Strings are sent as-is, to test malformed input
+    send: message => socket.send(typeof message === 'string' ? message : JSON.stringify(message)),
+    waitFor: (predicate, timeoutMs = 5000) => new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Timed out waiting for socket message')), timeoutMs);
+      const check = () => {
+        const found = messages.find(predicate);
+        if (found) {
+          clearTimeout(timer);
+          resolve(found);
+        } else {
+          waiters.push(check);
+        }
+      };
+      check();
+    }),
+    close: () => socket.close()
+  };
+}
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Tool } from '@langchain/core/tools';
+import { runWithRequestContext, getRequestContext } from '../src/utils/requestContext';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Stands in for a tool like the delayed action tool that needs the caller's session
+class SessionEchoTool extends Tool {
+  name = 'session_echo';
+  description = 'Returns the session ID of the request that invoked it';
+
+  async _call(input: string): Promise<string> {
+    await sleep(Number(input));
+    return getRequestContext()?.sessionId || 'none';
+  }
+}
+
+test('context is undefined outside of a request', () => {
+  assert.equal(getRequestContext(), undefined);
+});
+
+test('two simultaneous chats cannot see each other\'s session', async () => {
+  const tool = new SessionEchoTool();
+
+  const chat = (sessionId: string, delays: number[]) =>
+    runWithRequestContext({ requestId: `req-${sessionId}`, sessionId }, async () => {
+      const seen: string[] = [];
+      for (const delay of delays) {
+        seen.push(await tool.invoke(String(delay)));
+        seen.push(getRequestContext()?.sessionId || 'none');
+      }
+      return seen;
+    });
+
+  // Interleave the awaits so each chat resumes while the other is mid-flight
+  const [first, second] = await Promise.all([
+    chat('session-a', [20, 1, 15]),
+    chat('session-b', [1, 20, 5])
+  ]);
+
+  assert.deepEqual(first, Array(6).fill('session-a'));
+  assert.deepEqual(second, Array(6).fill('session-b'));
+  assert.equal(getRequestContext(), undefined);
+});
+
+test('context follows async generators consumed inside the request', async () => {
+  async function* stream() {
+    for (let i = 0; i < 3; i++) {
+      await sleep(5);
+      yield getRequestContext()?.requestId;
+    }
+  }
+
+  const consume = (requestId: string) =>
+    runWithRequestContext({ requestId }, async () => {
+      const ids: Array<string | undefined> = [];
+      for await (const id of stream()) {
+        ids.push(id);
+      }
+      return ids;
+    });
+
+  const [a, b] = await Promise.all([consume('req-1'), consume('req-2')]);
+  assert.deepEqual(a, ['req-1', 'req-1', 'req-1']);
+  assert.deepEqual(b, ['req-2', 'req-2', 'req-2']);
+});
@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+import { RhubarbQueue, RhubarbQueueFullError } from '../src/services/rhubarbQueue';
+import { RhubarbRequestPayload, RhubarbResult } from '../src/services/rhubarbService';
+
+const clip = (audioContent: string): RhubarbRequestPayload => ({ audioContent, audioEncoding: 'WAV' });
+
+/**
+ * A stand-in for analyzeWithRhubarb that takes delayMs and records what it was asked to do
+ */
+function fakeAnalyzer(delayMs: number) {
+  const calls: string[] = [];
+  let running = 0;
+  let maxRunning = 0;
+
+  const analyze = async (payload: RhubarbRequestPayload, signal?: AbortSignal): Promise<RhubarbResult> => {
+    calls.push(payload.audioContent);
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    try {
+      await sleep(delayMs, undefined, { signal });
+    } finally {
+      running--;
+    }
+    return { metadata: { soundFile: payload.audioContent, duration: 1 }, mouthCues: [] };
+  };
+
+  return { analyze, calls, maxRunning: () => maxRunning };
+}
+
+test('no more analyses run at once than the concurrency allows', async () => {
+  const analyzer = fakeAnalyzer(20);
+  const queue = new RhubarbQueue({ concurrency: 2 }, analyzer.analyze);
+
+  const results = await Promise.all(['a', 'b', 'c', 'd', 'e'].map(audio => queue.analyze(clip(audio))));
+
+  assert.deepEqual(results.map(result => result.metadata.soundFile), ['a', 'b', 'c', 'd', 'e']);
+  assert.equal(analyzer.maxRunning(), 2);
+});
+
+test('identical clips are analyzed once, whether in flight or cached', async () => {
+  const analyzer = fakeAnalyzer(10);
+  const queue = new RhubarbQueue({ cacheSize: 1 }, analyzer.analyze);
+
+  await Promise.all([queue.analyze(clip('a')), queue.analyze(clip('a'))]);
+  await queue.analyze(clip('a'));
+  await queue.analyze({ ...clip('a'), text: 'Different dialog' });
+  // The cache holds one entry, so "a" without text has been evicted
+  await queue.analyze(clip('a'));
+
+  assert.deepEqual(analyzer.calls, ['a', 'a', 'a']);
+});
+
+test('an explicit 0 in the environment is kept and negative values are refused', async () => {
+  const analyzer = fakeAnalyzer(1);
+  process.env.RHUBARB_CACHE_SIZE = '0';
+  try {
+    const queue = new RhubarbQueue({}, analyzer.analyze);
+    await queue.analyze(clip('a'));
+    // Let the finished analysis leave the in-flight map
+    await sleep(0);
+    assert.equal(queue.getStats().cached, 0);
+    await queue.analyze(clip('a'));
+    assert.deepEqual(analyzer.calls, ['a', 'a']);
+
+    process.env.RHUBARB_CACHE_SIZE = '-1';
+    assert.throws(() => new RhubarbQueue({}, analyzer.analyze), /RHUBARB_CACHE_SIZE must be at least 0/);
+  } finally {
+    delete process.env.RHUBARB_CACHE_SIZE;
+  }
+});
+
+test('a job that runs past the timeout is aborted and fails', async () => {
+  const analyzer = fakeAnalyzer(1000);
+  const queue = new RhubarbQueue({ jobTimeoutMs: 20 }, analyzer.analyze);
+
+  await assert.rejects(queue.analyze(clip('slow')), /timed out after 20ms/);
+  assert.equal(queue.getStats().running, 0);
+});
+
+test('new work is turned away once the queue is full', async () => {
+  const queue = new RhubarbQueue({ concurrency: 1, maxQueued: 1 }, fakeAnalyzer(20).analyze);
+
+  const first = queue.analyze(clip('a'));
+  const second = queue.analyze(clip('b'));
+  await assert.rejects(queue.analyze(clip('c')), RhubarbQueueFullError);
+  assert.throws(() => queue.submit(clip('c')), RhubarbQueueFullError);
+  // Work that is already running or cached doesn't need a place in the queue
+  assert.doesNotThrow(() => queue.submit(clip('b')));
+  await Promise.all([first, second]);
+});
+
+test('async jobs move from queued to done with the presented result', async () => {
+  const queue = new RhubarbQueue({ concurrency: 1 }, fakeAnalyzer(10).analyze);
+
+  queue.submit(clip('first'));
+  const job = queue.submit(clip('second'), result => ({ file: result.metadata.soundFile }));
+  assert.equal(queue.getJob(job.id)?.status, 'queued');
+
+  await sleep(60);
+  const finished = queue.getJob(job.id);
+  assert.equal(finished?.status, 'done');
+  assert.deepEqual(finished?.result, { file: 'second' });
+  assert.ok(finished?.finishedAt);
+});
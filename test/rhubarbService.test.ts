@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRhubarbOutput, validateRhubarbOptions } from '../src/services/rhubarbService';
+import { toViseme } from '../src/services/visemes';
+
+const expectedCues = [
+  { start: 0, end: 0.25, value: 'X' },
+  { start: 0.25, end: 0.5, value: 'D' },
+  { start: 0.5, end: 1, value: 'A' }
+];
+
+test('tsv, xml and dat exports are read back into mouth cues', () => {
+  const tsv = parseRhubarbOutput('0.00\tX\n0.25\tD\n0.50\tA\n1.00\tX\n', 'tsv', 'clip.wav');
+  assert.deepEqual(tsv.mouthCues, expectedCues);
+  assert.deepEqual(tsv.metadata, { soundFile: 'clip.wav', duration: 1 });
+  assert.equal(tsv.export?.format, 'tsv');
+
+  const xml = parseRhubarbOutput([
+    '<rhubarbResult><metadata><soundFile>clip.wav</soundFile><duration>1.00</duration></metadata><mouthCues>',
+    '<mouthCue start="0.00" end="0.25">X</mouthCue>',
+    '<mouthCue start="0.25" end="0.50">D</mouthCue>',
+    '<mouthCue start="0.50" end="1.00">A</mouthCue>',
+    '</mouthCues></rhubarbResult>'
+  ].join('\n'), 'xml', 'clip.wav');
+  assert.deepEqual(xml.mouthCues, expectedCues);
+  assert.equal(xml.metadata.duration, 1);
+
+  // 24 frames per second, counted from 1
+  const dat = parseRhubarbOutput('MohoSwitch1\n1 X\n7 D\n13 A\n25 X\n', 'dat', 'clip.wav');
+  assert.deepEqual(dat.mouthCues, expectedCues);
+});
+
+test('rhubarb options are validated', () => {
+  assert.equal(validateRhubarbOptions({ recognizer: 'phonetic', extendedShapes: '', exportFormat: 'xml' }), null);
+  assert.equal(validateRhubarbOptions({ recognizer: 'whisper' as any }), 'recognizer must be one of: pocketSphinx, phonetic');
+  assert.equal(validateRhubarbOptions({ extendedShapes: 'GQ' }), 'extendedShapes must list any of G, H and X, e.g. "GHX", or be empty');
+  assert.equal(validateRhubarbOptions({ exportFormat: 'csv' as any }), 'exportFormat must be one of: json, tsv, dat, xml');
+});
+
+test('rhubarb shapes map to avatar visemes', () => {
+  assert.equal(toViseme('A'), 'viseme_PP');
+  assert.equal(toViseme('D'), 'viseme_aa');
+  assert.equal(toViseme('X'), 'viseme_sil');
+  assert.equal(toViseme('?'), 'viseme_sil');
+});
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { nextOccurrence, parseSchedule } from '../src/services/schedule';
+import { fromZonedDateTime } from '../src/utils/timeZones';
+
+// Wednesday, noon in Berlin (still on summer time until Sunday the 25th)
+const NOW = Date.parse('2026-10-21T10:00:00Z');
+const BERLIN = 'Europe/Berlin';
+
+const at = (input: string, timeZone = BERLIN) => {
+  const parsed = parseSchedule(input, timeZone, NOW);
+  assert.ok(parsed, `"${input}" should parse`);
+  return { ...parsed, executeAt: new Date(parsed.executeAt).toISOString() };
+};
+
+test('relative times count from now', () => {
+  const parsed = at('Tell me a joke in 10 minutes');
+  assert.equal(parsed.message, 'Tell me a joke');
+  assert.equal(parsed.delayMs, 10 * 60 * 1000);
+  assert.equal(parsed.executeAt, '2026-10-21T10:10:00.000Z');
+  assert.equal(at('Check the oven in an hour').executeAt, '2026-10-21T11:00:00.000Z');
+});
+
+test('clock times are read in the user\'s time zone', () => {
+  assert.equal(at('Wake me up at 7pm').executeAt, '2026-10-21T17:00:00.000Z');
+  assert.equal(at('Wake me up at 7pm', 'America/New_York').executeAt, '2026-10-21T23:00:00.000Z');
+  assert.equal(at('Start the meeting at 14:30').executeAt, '2026-10-21T12:30:00.000Z');
+  // A small hour without am/pm means the afternoon
+  assert.equal(at('Water the plants at 3').executeAt, '2026-10-21T13:00:00.000Z');
+  // A time that has passed today means tomorrow
+  assert.equal(at('Call mom at 9').executeAt, '2026-10-22T07:00:00.000Z');
+  assert.equal(at('Have lunch at noon').executeAt, '2026-10-22T10:00:00.000Z');
+  assert.equal(at('Read me a story tonight').executeAt, '2026-10-21T19:00:00.000Z');
+  assert.equal(at('Call mom at 9').delayMs, undefined);
+});
+
+test('days are read relative to today', () => {
+  const morning = at('Please tell me the news tomorrow morning');
+  assert.equal(morning.message, 'tell me the news');
+  assert.equal(morning.executeAt, '2026-10-22T07:00:00.000Z');
+  assert.equal(at('Remind me about the dentist next Friday at 9:30am').executeAt, '2026-10-23T07:30:00.000Z');
+  // After the switch to winter time
+  assert.equal(at('Plan the week on Monday').executeAt, '2026-10-26T08:00:00.000Z');
+  assert.equal(at('Send the report the day after tomorrow at 5pm').executeAt, '2026-10-23T15:00:00.000Z');
+});
+
+test('repeating requests become a cron schedule', () => {
+  const weekdays = at('Tell me the news every weekday at 8');
+  assert.equal(weekdays.message, 'Tell me the news');
+  assert.equal(weekdays.recurrence, '0 8 * * 1-5');
+  assert.equal(weekdays.executeAt, '2026-10-22T06:00:00.000Z');
+
+  const evenings = at('Ask how my day went every Monday and Thursday evening');
+  assert.equal(evenings.recurrence, '0 19 * * 1,4');
+  assert.equal(evenings.executeAt, '2026-10-22T17:00:00.000Z');
+
+  const mornings = at('Tell me the news every weekday morning');
+  assert.equal(mornings.message, 'Tell me the news');
+  assert.equal(mornings.recurrence, '0 9 * * 1-5');
+  const weekends = at('Ask me every weekend evening');
+  assert.equal(weekends.message, 'Ask me');
+  assert.equal(weekends.recurrence, '0 19 * * 0,6');
+  assert.equal(at('Read me a poem every day at night').recurrence, '0 21 * * *');
+  assert.equal(at('Plan the week every Mondays and Fridays afternoon').recurrence, '0 15 * * 1,5');
+  assert.equal(at('Stretch every weekdays at 3').recurrence, '0 15 * * 1-5');
+
+  assert.equal(at('Remind me to stretch every 15 minutes').recurrence, '*/15 * * * *');
+  assert.equal(at('Remind me to stretch every 15 minutes').executeAt, '2026-10-21T10:15:00.000Z');
+  // Intervals that don't divide the hour or day are kept as intervals rather than a lopsided cron
+  const uneven = at('Remind me to drink water every 45 minutes');
+  assert.equal(uneven.recurrence, '@every 45m');
+  assert.equal(uneven.executeAt, '2026-10-21T10:45:00.000Z');
+  assert.equal(at('Check the server every 5 hours').recurrence, '@every 5h');
+  assert.equal(at('Check the server every 6 hours').recurrence, '0 */6 * * *');
+
+  assert.equal(at('Give me a quote daily').recurrence, '0 9 * * *');
+  assert.equal(at('Give me a quote daily').delayMs, undefined);
+});
+
+test('requests without a time to come are not scheduled', () => {
+  assert.equal(parseSchedule('Tell me a joke', BERLIN, NOW), null);
+  assert.equal(parseSchedule('Tell me a joke today at 8am', BERLIN, NOW), null);
+  assert.equal(parseSchedule('Tell me a joke at 25:00', BERLIN, NOW), null);
+  assert.equal(parseSchedule('in 5 minutes', BERLIN, NOW), null);
+});
+
+test('the next occurrence follows the wall clock across daylight saving changes', () => {
+  // 02:30 doesn't exist on the morning clocks go forward, so it moves to 03:30
+  assert.equal(new Date(nextOccurrence('30 2 * * *', Date.parse('2026-03-28T12:00:00Z'), BERLIN)).toISOString(), '2026-03-29T01:30:00.000Z');
+  // and happens twice when they go back, running the first time
+  assert.equal(new Date(nextOccurrence('30 2 * * *', Date.parse('2026-10-24T12:00:00Z'), BERLIN)).toISOString(), '2026-10-25T00:30:00.000Z');
+  assert.equal(fromZonedDateTime(2026, 10, 26, 8, 0, BERLIN), Date.parse('2026-10-26T07:00:00Z'));
+
+  assert.equal(nextOccurrence('0 9 * * 1', NOW, BERLIN), Date.parse('2026-10-26T08:00:00Z'));
+  // Intervals keep their spacing from the previous run, skipping runs that were missed
+  assert.equal(nextOccurrence('@every 45m', NOW, BERLIN), NOW + 45 * 60 * 1000);
+  assert.equal(nextOccurrence('@every 45m', NOW + 100 * 60 * 1000, BERLIN, NOW), NOW + 135 * 60 * 1000);
+  assert.throws(() => nextOccurrence('0 25 * * *', NOW, BERLIN), /Invalid cron field "25"/);
+  assert.throws(() => nextOccurrence('0 9 31 2 *', NOW, BERLIN), /never runs/);
+});
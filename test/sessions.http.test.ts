@@ -0,0 +1,137 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { configureFakeProvider, startApp, postJson, TestServer } from './helpers/testServer';
+
+configureFakeProvider([{ response: 'Scripted reply.' }]);
+
+let server: TestServer;
+let api: string;
+
+before(async () => {
+  server = await startApp();
+  api = `${server.baseUrl}/api`;
+});
+
+after(async () => {
+  await server.close();
+});
+
+const createSession = async (body: Record<string, unknown> = {}) => {
+  const res = await postJson(`${api}/agent/session`, body);
+  return { res, body: await res.json() as any };
+};
+
+test('POST /agent/session creates a session with defaults', async () => {
+  const { res, body } = await createSession({ userId: 'alice' });
+  assert.equal(res.status, 201);
+  assert.ok(body.sessionId);
+  assert.equal(body.session.userId, 'alice');
+  assert.equal(body.session.title, 'New chat');
+  assert.equal(body.session.personality, 'default');
+  assert.ok(body.session.expiresAt);
+});
+
+test('POST /agent/session validates its fields', async () => {
+  assert.equal((await createSession({ personality: 'pirate' })).res.status, 400);
+  // Inherited object keys are not personalities
+  assert.equal((await createSession({ personality: 'constructor' })).res.status, 400);
+  assert.equal((await createSession({ personality: 'toString' })).res.status, 400);
+  assert.equal((await createSession({ mood: 101 })).res.status, 400);
+  assert.equal((await createSession({ title: 5 })).res.status, 400);
+  assert.equal((await createSession({ userId: ['alice'] })).res.status, 400);
+});
+
+test('GET, PUT and DELETE /agent/session/:sessionId', async () => {
+  const { body: created } = await createSession({ userId: 'bob', personality: 'hype', mood: 80 });
+  const url = `${api}/agent/session/${created.sessionId}`;
+
+  const fetched = await (await fetch(url)).json() as any;
+  assert.equal(fetched.personality, 'hype');
+  assert.equal(fetched.memory.bufferedMessages, 0);
+
+  const updated = await fetch(url, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ title: 'Renamed', mood: 20 })
+  });
+  assert.equal(updated.status, 200);
+  const updatedBody = await updated.json() as any;
+  assert.equal(updatedBody.title, 'Renamed');
+  assert.equal(updatedBody.mood, 20);
+
+  const badTitle = await fetch(url, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ title: { text: 'Renamed' } })
+  });
+  assert.equal(badTitle.status, 400);
+
+  assert.equal((await fetch(url, { method: 'DELETE' })).status, 200);
+  assert.equal((await fetch(url)).status, 404);
+  assert.equal((await fetch(url, { method: 'DELETE' })).status, 404);
+});
+
+test('messages are paginated with a cursor and exportable', async () => {
+  const { body: created } = await createSession({ userId: 'carol' });
+  const { sessionId } = created;
+
+  for (const message of ['first question', 'second question']) {
+    await postJson(`${api}/agent/chat?sessionId=${sessionId}`, { message, personality: 'default', mood: 50 });
+  }
+
+  const firstPage = await (await fetch(`${api}/agent/session/${sessionId}/messages?limit=3`)).json() as any;
+  assert.equal(firstPage.total, 4);
+  assert.equal(firstPage.messages.length, 3);
+  assert.equal(firstPage.hasMore, true);
+
+  const secondPage = await (await fetch(`${api}/agent/session/${sessionId}/messages?limit=3&cursor=${firstPage.nextCursor}`)).json() as any;
+  assert.equal(secondPage.messages.length, 1);
+  assert.equal(secondPage.hasMore, false);
+  assert.equal(secondPage.messages[0].content, 'Scripted reply.');
+
+  assert.equal((await fetch(`${api}/agent/session/${sessionId}/messages?cursor=bogus`)).status, 400);
+
+  // A zero limit would page forever, so it gets the default page size
+  const zeroLimit = await (await fetch(`${api}/agent/session/${sessionId}/messages?limit=0`)).json() as any;
+  assert.equal(zeroLimit.messages.length, 4);
+  assert.equal(zeroLimit.hasMore, false);
+
+  const exported = await fetch(`${api}/agent/session/${sessionId}/export?format=markdown`);
+  assert.equal(exported.status, 200);
+  assert.match(exported.headers.get('content-disposition') || '', new RegExp(`${sessionId}\\.md`));
+  assert.match(await exported.text(), /first question/);
+});
+
+test('GET /agent/user/:userId/sessions lists only that user\'s sessions', async () => {
+  await createSession({ userId: 'dave' });
+  await createSession({ userId: 'dave' });
+  await createSession({ userId: 'erin' });
+
+  const body = await (await fetch(`${api}/agent/user/dave/sessions?limit=1`)).json() as any;
+  assert.equal(body.total, 2);
+  assert.equal(body.sessions.length, 1);
+  assert.equal(body.hasMore, true);
+  assert.equal(body.sessions[0].userId, 'dave');
+
+  const zeroLimit = await (await fetch(`${api}/agent/user/dave/sessions?limit=0`)).json() as any;
+  assert.equal(zeroLimit.sessions.length, 2);
+  assert.equal(zeroLimit.hasMore, false);
+});
+
+test('GET /agent/stats reports the session store', async () => {
+  const body = await (await fetch(`${api}/agent/stats`)).json() as any;
+  assert.equal(body.sessionStore, 'memory');
+  assert.ok(body.totalSessions > 0);
+});
+
+test('personality routes', async () => {
+  const all = await (await fetch(`${api}/agent/personalities`)).json() as any[];
+  assert.ok(all.some(personality => personality.id === 'roast'));
+
+  const roast = await fetch(`${api}/agent/personality/roast`);
+  assert.equal(roast.status, 200);
+  assert.ok((await roast.json() as any).name);
+
+  assert.equal((await fetch(`${api}/agent/personality/pirate`)).status, 404);
+  assert.equal((await fetch(`${api}/agent/personality/constructor`)).status, 404);
+});
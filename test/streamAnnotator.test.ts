@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { StreamAnnotator, AnnotationEvent } from '../src/services/streamAnnotator';
+
+const annotate = (tokens: string[]) => {
+  const annotator = new StreamAnnotator();
+  const events: AnnotationEvent[] = [];
+  tokens.forEach(token => events.push(...annotator.push(token)));
+  events.push(...annotator.flush());
+  return { events, annotator };
+};
+
+test('tags split across tokens are still recognised', () => {
+  const { events, annotator } = annotate(['[mo', 'od:hap', 'py] [sm', 'ile] Hi there. [n', 'od] Bye']);
+
+  assert.equal(annotator.getMood(), 'happy');
+  assert.equal(annotator.getSpokenText(), 'Hi there. Bye');
+  assert.deepEqual(events.filter(event => event.type === 'gesture'), [
+    { type: 'gesture', tag: 'smile', charOffset: 0 },
+    { type: 'gesture', tag: 'nod', charOffset: 10 }
+  ]);
+});
+
+test('sentences are emitted as soon as they end and flushed at the end', () => {
+  const { events } = annotate(['It costs 3.5 dollars! ', 'Really? ', 'Yes']);
+
+  assert.deepEqual(events.filter(event => event.type === 'sentence'), [
+    { type: 'sentence', text: 'It costs 3.5 dollars!', charOffset: 0, index: 0 },
+    { type: 'sentence', text: 'Really?', charOffset: 22, index: 1 },
+    { type: 'sentence', text: 'Yes', charOffset: 30, index: 2 }
+  ]);
+});
+
+test('only a leading mood tag counts and plain brackets are spoken', () => {
+  const { events, annotator } = annotate(['See [1] and [2]. [mood:excited] done [smi']);
+
+  // The late mood tag is ignored, so the reply gets the fallback mood before its first word
+  assert.equal(annotator.getMood(), 'calm');
+  assert.equal(annotator.getSpokenText(), 'See [1] and [2]. done');
+  assert.deepEqual(events[0], { type: 'mood', mood: 'calm' });
+  assert.equal(events.filter(event => event.type === 'mood').length, 1);
+});
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+import { SynthesisQueue } from '../src/services/synthesisQueue';
+
+test('no more than the concurrency limit run at once, in the order they were added', async () => {
+  const queue = new SynthesisQueue(2);
+  const started: number[] = [];
+  let running = 0;
+  let maxRunning = 0;
+
+  const results = await Promise.all([0, 1, 2, 3, 4].map(index => queue.run(async () => {
+    started.push(index);
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    await sleep(10);
+    running--;
+    return index * 10;
+  })));
+
+  assert.deepEqual(results, [0, 10, 20, 30, 40]);
+  assert.deepEqual(started, [0, 1, 2, 3, 4]);
+  assert.equal(maxRunning, 2);
+  assert.deepEqual(queue.getStats(), { running: 0, queued: 0 });
+});
+
+test('a failed task frees its slot', async () => {
+  const queue = new SynthesisQueue(1);
+
+  await assert.rejects(queue.run(async () => {
+    throw new Error('espeak crashed');
+  }), /espeak crashed/);
+  assert.equal(await queue.run(async () => 'next'), 'next');
+  assert.deepEqual(queue.getStats(), { running: 0, queued: 0 });
+});
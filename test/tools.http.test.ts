@@ -0,0 +1,160 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  configureFakeProvider,
+  startApp,
+  startStubServer,
+  postJson,
+  parseSse,
+  TestServer,
+  StubServer
+} from './helpers/testServer';
+
+const track = {
+  id: 'track123',
+  name: 'Bohemian Rhapsody',
+  artists: [{ name: 'Queen' }],
+  album: { name: 'A Night at the Opera' },
+  external_urls: { spotify: 'https://open.spotify.com/track/track123' }
+};
+
+let server: TestServer;
+let spotify: StubServer;
+let brave: StubServer;
+let braveStatus = 200;
+let api: string;
+
+before(async () => {
+  spotify = await startStubServer({
+    'POST /api/token': () => ({ body: { access_token: 'stub-token', refresh_token: 'stub-refresh', expires_in: 3600 } }),
+    'GET /v1/search': () => ({ body: { tracks: { items: [track] } } }),
+    'PUT /v1/me/player/play': () => ({ status: 200 })
+  });
+  brave = await startStubServer({
+    'GET /res/v1/web/search': request => braveStatus !== 200
+      ? { status: braveStatus, body: { error: 'stub error' } }
+      : {
+        body: {
+          web: {
+            results: [{
+              title: `Results for ${request.query.get('q')}`,
+              url: 'https://example.com/news',
+              description: 'Stubbed search result'
+            }]
+          }
+        }
+      }
+  });
+
+  configureFakeProvider([
+    {
+      match: 'play',
+      toolCalls: [{ name: 'spotify_control', args: { input: 'play:Bohemian Rhapsody' } }],
+      response: 'Music time! {{toolResult}}'
+    },
+    {
+      match: 'news',
+      toolCalls: [{ name: 'web_search', args: { input: 'latest space news' } }],
+      response: 'Here is what I found: {{toolResult}}'
+    }
+  ], {
+    SPOTIFY_CLIENT_ID: 'stub-client',
+    SPOTIFY_CLIENT_SECRET: 'stub-secret',
+    SPOTIFY_ACCOUNTS_URL: spotify.baseUrl,
+    SPOTIFY_API_URL: `${spotify.baseUrl}/v1`,
+    BRAVE_API_KEY: 'stub-brave-key',
+    BRAVE_SEARCH_URL: `${brave.baseUrl}/res/v1/web/search`
+  });
+
+  server = await startApp();
+  api = `${server.baseUrl}/api`;
+});
+
+after(async () => {
+  await Promise.all([server.close(), spotify.close(), brave.close()]);
+});
+
+const chat = async (message: string) => {
+  const res = await postJson(`${api}/agent/chat`, { message, personality: 'default', mood: 50 });
+  assert.equal(res.status, 200);
+  return (await res.json() as any).message as string;
+};
+
+test('spotify tool asks the user to connect before OAuth', async () => {
+  const reply = await chat('play some queen');
+  assert.match(reply, /connect your Spotify account first/);
+  assert.equal(spotify.requests.filter(request => request.path.startsWith('/v1')).length, 0);
+});
+
+test('spotify tool searches and starts playback after the OAuth callback', async () => {
+  const callback = await fetch(`${api}/spotify/callback?code=stub-code&state=spotify-oauth`);
+  assert.equal(callback.status, 200);
+
+  const tokenRequest = spotify.requests.find(request => request.path === '/api/token');
+  assert.match(tokenRequest?.body || '', /code=stub-code/);
+
+  const status = await (await fetch(`${api}/spotify/status`)).json() as any;
+  assert.equal(status.authenticated, true);
+
+  const reply = await chat('play bohemian rhapsody');
+  assert.equal(reply, 'Music time! 🎵 Now playing: **Bohemian Rhapsody** by Queen');
+
+  const search = spotify.requests.find(request => request.path === '/v1/search');
+  assert.equal(search?.query.get('q'), 'Bohemian Rhapsody');
+  assert.equal(search?.headers.authorization, 'Bearer stub-token');
+
+  const play = spotify.requests.find(request => request.path === '/v1/me/player/play');
+  assert.deepEqual(JSON.parse(play?.body || '{}'), { uris: ['spotify:track:track123'] });
+});
+
+test('web search tool queries Brave and feeds the results back to the model', async () => {
+  const reply = await chat('any space news?');
+  assert.match(reply, /^Here is what I found: Found 1 results for "latest space news"/);
+  assert.match(reply, /Stubbed search result/);
+
+  const request = brave.requests[brave.requests.length - 1];
+  assert.equal(request.query.get('q'), 'latest space news');
+  assert.equal(request.headers['x-subscription-token'], 'stub-brave-key');
+});
+
+test('streamed replies arrive token by token without the tool call or tool output', async () => {
+  const res = await postJson(`${api}/agent/chat`, { message: 'stream me the news', personality: 'default', mood: 50 }, {
+    Accept: 'text/event-stream'
+  });
+  const chunks = parseSse(await res.text())
+    .map(event => event.data)
+    .filter(event => event.type === 'chunk')
+    .map(event => event.content as string);
+
+  assert.ok(chunks.length > 5, `expected many token chunks, got ${chunks.length}`);
+  assert.equal(chunks[0], 'Here ');
+  assert.match(chunks.join(''), /^Here is what I found: Found 1 results/);
+  assert.ok(chunks.every(chunk => !chunk.includes('web_search')));
+});
+
+test('tool_start and tool_end events bracket the tool call', async () => {
+  const res = await postJson(`${api}/agent/chat`, { message: 'news about mars', personality: 'default', mood: 50 }, {
+    Accept: 'text/event-stream'
+  });
+  const events = parseSse(await res.text());
+  const names = events.map(event => event.event);
+
+  const start = events.find(event => event.event === 'tool_start');
+  const end = events.find(event => event.event === 'tool_end');
+  assert.deepEqual(start?.data.tool, { name: 'web_search', input: 'latest space news' });
+  assert.equal(end?.data.tool.name, 'web_search');
+  assert.equal(typeof end?.data.tool.durationMs, 'number');
+
+  assert.ok(names.indexOf('tool_start') < names.indexOf('tool_end'));
+  assert.ok(names.indexOf('tool_end') < names.indexOf('chunk'));
+});
+
+test('web search tool turns a Brave rate limit into a friendly message', async () => {
+  braveStatus = 429;
+  try {
+    const reply = await chat('more news please');
+    assert.match(reply, /Search rate limit exceeded/);
+  } finally {
+    braveStatus = 200;
+  }
+});
@@ -0,0 +1,262 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { configureFakeProvider, startApp, startStubServer, postJson, parseSse, TestServer, StubServer } from './helpers/testServer';
+
+const tempDir = path.join(os.tmpdir(), `tts-test-${process.pid}`);
+const rhubarbLog = path.join(tempDir, 'rhubarb.json');
+
+configureFakeProvider([
+  { match: 'speak', response: '[mood:happy] Hello there. [nod] See you soon.' }
+], {
+  RHUBARB_BINARY: path.join(__dirname, 'fixtures', 'fake-rhubarb.js'),
+  RHUBARB_TMP_DIR: tempDir,
+  FAKE_RHUBARB_LOG: rhubarbLog,
+  ESPEAK_BINARY: path.join(__dirname, 'fixtures', 'fake-espeak.js'),
+  PIPER_MODEL: '',
+  TTS_ENGINE: '',
+  OPENAI_API_KEY: 'test-openai-key'
+});
+
+// A 44-byte WAV header is all the fake rhubarb needs
+const wav = Buffer.concat([Buffer.from('RIFF'), Buffer.alloc(40)]).toString('base64');
+
+let server: TestServer;
+let openai: StubServer;
+let api: string;
+
+before(async () => {
+  openai = await startStubServer({
+    'POST /v1/audio/speech': () => ({ body: Buffer.from('RIFF-from-openai') })
+  });
+  process.env.OPENAI_TTS_URL = `${openai.baseUrl}/v1/audio/speech`;
+  server = await startApp();
+  api = `${server.baseUrl}/api`;
+});
+
+after(async () => {
+  await server.close();
+  await openai.close();
+  await fs.rm(tempDir, { recursive: true, force: true });
+});
+
+test('tagged text is analyzed without its tags and returns a gesture timeline', async () => {
+  const res = await postJson(`${api}/tts/rhubarb`, {
+    audioContent: wav,
+    audioEncoding: 'WAV',
+    text: '[mood:happy] Hello there. [nod] See you.'
+  });
+  assert.equal(res.status, 200);
+  const body = await res.json();
+
+  const rhubarb = JSON.parse(await fs.readFile(rhubarbLog, 'utf8'));
+  assert.equal(rhubarb.dialog, 'Hello there. See you.');
+
+  assert.equal(body.mouthCues.length, 6);
+  assert.equal(body.timeline.mood, 'happy');
+  assert.deepEqual(body.timeline.events.map((event: any) => [event.type, event.tag, event.time]), [
+    ['mood', 'happy', 0],
+    ['gesture', 'nod', 2]
+  ]);
+});
+
+test('without text there is no dialog file and no timeline', async () => {
+  const res = await postJson(`${api}/tts/rhubarb`, { audioContent: wav, audioEncoding: 'WAV' });
+  assert.equal(res.status, 200);
+  const body = await res.json();
+
+  const rhubarb = JSON.parse(await fs.readFile(rhubarbLog, 'utf8'));
+  assert.equal(rhubarb.dialog, null);
+  assert.equal(body.timeline, undefined);
+  assert.equal(body.metadata.duration, 3);
+});
+
+test('audioContent and text must be strings', async () => {
+  const res = await postJson(`${api}/tts/rhubarb`, { audioContent: wav, audioEncoding: 'WAV', text: 42 });
+  assert.equal(res.status, 400);
+  assert.equal((await res.json()).error, 'text must be a string');
+
+  const audio = await postJson(`${api}/tts/rhubarb`, { audioContent: { data: wav }, audioEncoding: 'WAV' });
+  assert.equal(audio.status, 400);
+  assert.equal((await audio.json()).error, 'audioContent must be a base64 string');
+});
+
+test('recognizer, shapes and export format can be chosen per request', async () => {
+  const res = await postJson(`${api}/tts/rhubarb`, {
+    audioContent: wav,
+    audioEncoding: 'WAV',
+    recognizer: 'phonetic',
+    extendedShapes: 'X',
+    exportFormat: 'tsv'
+  });
+  assert.equal(res.status, 200);
+  const body = await res.json();
+
+  const rhubarb = JSON.parse(await fs.readFile(rhubarbLog, 'utf8'));
+  assert.match(rhubarb.args.join(' '), /^-f tsv -o \S+ --recognizer phonetic --extendedShapes X \S+$/);
+
+  assert.equal(body.export.format, 'tsv');
+  assert.match(body.export.content, /^0\.00\tX\n0\.20\tB/);
+  assert.deepEqual(body.mouthCues[1], { start: 0.2, end: 0.8, value: 'B', viseme: 'viseme_kk' });
+  assert.equal(body.metadata.duration, 3);
+
+  const invalid = await postJson(`${api}/tts/rhubarb`, { audioContent: wav, audioEncoding: 'WAV', exportFormat: 'csv' });
+  assert.equal(invalid.status, 400);
+});
+
+test('async mode answers 202 with a job that can be polled for the result', async () => {
+  const res = await postJson(`${api}/tts/rhubarb?async=true`, {
+    audioContent: Buffer.concat([Buffer.from('RIFF'), Buffer.alloc(60)]).toString('base64'),
+    audioEncoding: 'WAV',
+    text: '[mood:serious] [nod] Listen.'
+  });
+  assert.equal(res.status, 202);
+  const { jobId, statusUrl } = await res.json();
+  assert.equal(res.headers.get('location'), statusUrl);
+
+  let job: any;
+  for (let attempt = 0; attempt < 50; attempt++) {
+    job = await (await fetch(`${server.baseUrl}${statusUrl}`)).json();
+    if (job.status === 'done' || job.status === 'failed') {
+      break;
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+
+  assert.equal(job.id, jobId);
+  assert.equal(job.status, 'done');
+  assert.equal(job.result.mouthCues.length, 6);
+  assert.deepEqual(job.result.timeline.events.map((event: any) => event.tag), ['serious', 'nod']);
+
+  const missing = await fetch(`${api}/tts/rhubarb/jobs/no-such-job`);
+  assert.equal(missing.status, 404);
+});
+
+test('synthesize speaks the reply without its tags and lip-syncs the audio', async () => {
+  const res = await postJson(`${api}/tts/synthesize`, {
+    text: '[mood:happy] Hello there. [nod] See you.',
+    personality: 'hype'
+  });
+  assert.equal(res.status, 200);
+  const body = await res.json();
+
+  assert.equal(body.engine, 'espeak');
+  assert.equal(body.voice, 'en-us+f3');
+  assert.equal(body.audioEncoding, 'WAV');
+  const audio = Buffer.from(body.audioContent, 'base64').toString();
+  assert.ok(audio.startsWith('RIFF'));
+  // hype at the default mood: 1.15x speed, two semitones up
+  assert.ok(audio.includes('-v en-us+f3 -s 201 -p 58'));
+  assert.ok(audio.endsWith('Hello there. See you.'));
+
+  const rhubarb = JSON.parse(await fs.readFile(rhubarbLog, 'utf8'));
+  assert.equal(rhubarb.dialog, 'Hello there. See you.');
+  assert.equal(body.mouthCues.length, 6);
+  assert.deepEqual(body.timeline.events.map((event: any) => [event.tag, event.time]), [['happy', 0], ['nod', 2]]);
+});
+
+test('synthesize uses the requested engine and voice', async () => {
+  const espeak = await postJson(`${api}/tts/synthesize`, { text: 'Bonjour', engine: 'espeak', voice: 'fr' });
+  assert.ok(Buffer.from((await espeak.json()).audioContent, 'base64').toString().includes('-v fr -s 175 -p 50'));
+
+  const res = await postJson(`${api}/tts/synthesize`, { text: 'Hi there.', engine: 'openai', voice: 'nova' });
+  assert.equal(res.status, 200);
+  const body = await res.json();
+  assert.equal(body.engine, 'openai');
+  assert.equal(Buffer.from(body.audioContent, 'base64').toString(), 'RIFF-from-openai');
+
+  const request = openai.requests[openai.requests.length - 1];
+  assert.equal(request.headers.authorization, 'Bearer test-openai-key');
+  assert.deepEqual(JSON.parse(request.body), {
+    model: 'gpt-4o-mini-tts',
+    voice: 'nova',
+    input: 'Hi there.',
+    speed: 1,
+    response_format: 'wav'
+  });
+});
+
+test('a local engine that hangs is killed after the timeout', async () => {
+  process.env.FAKE_ESPEAK_HANG = '1';
+  process.env.TTS_PROCESS_TIMEOUT_MS = '200';
+  try {
+    const started = Date.now();
+    const res = await postJson(`${api}/tts/synthesize`, { text: 'Hello?', engine: 'espeak' });
+    assert.equal(res.status, 500);
+    assert.ok(Date.now() - started < 5000);
+  } finally {
+    delete process.env.FAKE_ESPEAK_HANG;
+    delete process.env.TTS_PROCESS_TIMEOUT_MS;
+  }
+
+  const res = await postJson(`${api}/tts/synthesize`, { text: 'Hello again', engine: 'espeak' });
+  assert.equal(res.status, 200);
+});
+
+test('personalities expose their voice profile, which synthesis follows at each mood', async () => {
+  const personalities = await (await fetch(`${api}/agent/personalities`)).json();
+  const sleepy = personalities.find((personality: any) => personality.id === 'sleepy');
+  assert.equal(sleepy.voice.voiceIds.openai, 'shimmer');
+  assert.deepEqual(sleepy.voice.moodAdjustments.high, { rate: 0.85, pitch: -1 });
+
+  const res = await postJson(`${api}/tts/synthesize`, { text: 'So... sleepy.', personality: 'sleepy', mood: 90, engine: 'openai' });
+  const body = await res.json();
+  assert.deepEqual([body.voice, body.rate, body.pitch], ['shimmer', 0.68, -3]);
+  assert.equal(JSON.parse(openai.requests[openai.requests.length - 1].body).speed, 0.68);
+});
+
+test('synthesize rejects bad requests', async () => {
+  const cases: [unknown, string][] = [
+    [{}, 'Missing required field: text'],
+    [{ text: '[mood:calm] [nod]' }, 'Nothing to speak once mood and gesture tags are removed'],
+    [{ text: 'Hi', personality: 'pirate' }, 'Invalid personality mode'],
+    [{ text: 'Hi', mood: 101 }, 'Mood must be between 0 and 100'],
+    [{ text: 'Hi', engine: 'google' }, 'TTS engine not available: google'],
+    [{ text: 'Hi', engine: 'sam' }, 'Unknown TTS engine. Use one of: piper, espeak, openai, google'],
+    [{ text: 'Hi', voice: '../../etc/passwd' }, 'voice must be a voice name of letters, digits, ".", "_", "+" or "-"']
+  ];
+
+  for (const [request, error] of cases) {
+    const res = await postJson(`${api}/tts/synthesize`, request);
+    assert.equal(res.status, 400);
+    assert.deepEqual(await res.json(), { error });
+  }
+});
+
+test('a streamed reply with speech gets an audio segment per sentence, in order, before end', async () => {
+  const res = await postJson(`${api}/agent/chat`, {
+    message: 'speak to me',
+    personality: 'default',
+    mood: 50,
+    speech: {}
+  }, { Accept: 'text/event-stream' });
+  const events = parseSse(await res.text()).map(event => event.data);
+  const types = events.map(event => event.type);
+
+  assert.equal(types[types.length - 1], 'end');
+  assert.ok(types.indexOf('audio') > types.indexOf('sentence'));
+
+  const segments = events.filter(event => event.type === 'audio').map(event => event.audio);
+  assert.deepEqual(segments.map(segment => [segment.index, segment.text, segment.offset]), [
+    [0, 'Hello there.', 0],
+    [1, 'See you soon.', 3]
+  ]);
+  assert.ok(Buffer.from(segments[1].audioContent, 'base64').toString().endsWith('See you soon.'));
+  // The second sentence's cues and gestures are shifted by the first one's duration
+  assert.deepEqual(segments[1].mouthCues[1], { start: 3.2, end: 3.8, value: 'B', viseme: 'viseme_kk' });
+  assert.deepEqual(segments[0].gestures, []);
+  assert.deepEqual(segments[1].gestures, [{ tag: 'nod', time: 3.2 }]);
+});
+
+test('speech options are validated with the chat request', async () => {
+  const res = await postJson(`${api}/agent/chat`, {
+    message: 'speak to me',
+    personality: 'default',
+    mood: 50,
+    speech: { engine: 'sam' }
+  });
+  assert.equal(res.status, 400);
+  assert.deepEqual(await res.json(), { error: 'Unknown TTS engine. Use one of: piper, espeak, openai, google' });
+});